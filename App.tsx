@@ -4,11 +4,32 @@ import { ColumnMapper } from './components/ColumnMapper';
 import { MasterTable } from './components/MasterTable';
 import { StepIndicator } from './components/StepIndicator';
 import { DataCleaner } from './components/DataCleaner';
-import { AppStep, SheetData, EmployeeRow, FieldDefinition, AppMode, MergeConfig } from './types';
-import { readExcelFiles, mergeData } from './utils/excelUtils';
+import { AppStep, SheetData, EmployeeRow, FieldDefinition, AppMode, MergeConfig, DuplicateReport, ReconciliationEntry } from './types';
+import { mergeDataWithReport } from './utils/excelUtils';
+import { applyComputedFields } from './utils/formula';
+import { readDataFiles } from './utils/fileImport';
 import { SAMPLE_SHEETS } from './utils/mockData';
 import { Layers, Sparkles, Home, AlertCircle, X } from 'lucide-react';
 import { Toast, ToastType } from './components/Toast';
+import { DEFAULT_KEY_NORMALIZATION } from './utils/keyMatching';
+import { isDelimitedFile } from './utils/delimitedText';
+import { DelimitedImportDialog } from './components/DelimitedImportDialog';
+
+const DEFAULT_MERGE_CONFIG: MergeConfig = {
+  method: 'join',
+  joinKeys: [],
+  joinType: 'outer',
+  removeDuplicates: true,
+  duplicateStrategy: 'first',
+  keyNormalization: DEFAULT_KEY_NORMALIZATION,
+  fuzzyMatch: { enabled: false, threshold: 0.8 },
+  keyAliases: {},
+  requiredSheets: [],
+  conflictPolicies: {},
+  groupByFields: [],
+  aggregations: {},
+  sourceTransforms: {}
+};
 
 // Internal Modal Component to replace window.confirm
 interface ConfirmModalProps {
@@ -64,16 +85,17 @@ function App() {
   const [mapping, setMapping] = useState<Record<string, string[]>>({});
   
   // New State for Merge Configuration - Default changed to 'join'
-  const [mergeConfig, setMergeConfig] = useState<MergeConfig>({
-      method: 'join',
-      joinKey: '',
-      joinType: 'outer',
-      removeDuplicates: true
-  });
+  const [mergeConfig, setMergeConfig] = useState<MergeConfig>(DEFAULT_MERGE_CONFIG);
   
   const [mergedData, setMergedData] = useState<EmployeeRow[]>([]);
+  const [duplicateReport, setDuplicateReport] = useState<DuplicateReport[]>([]);
+  const [reconciliation, setReconciliation] = useState<ReconciliationEntry[]>([]);
   const [loading, setLoading] = useState(false);
 
+  // CSV/TSV files wait here for the user to confirm encoding and delimiter
+  const [delimitedQueue, setDelimitedQueue] = useState<{ file: File; bytes: Uint8Array }[]>([]);
+  const [pendingSheets, setPendingSheets] = useState<SheetData[]>([]);
+
   // Notification State
   const [toast, setToast] = useState<{msg: string, type: ToastType} | null>(null);
 
@@ -89,29 +111,56 @@ function App() {
     setToast({ msg, type });
   };
 
+  const finishImport = (extractedSheets: SheetData[]) => {
+    if (extractedSheets.length === 0) {
+      notify('無法讀取檔案或檔案為空。', 'error');
+      return;
+    }
+    setSheets(extractedSheets);
+    // Reset mapping/fields when new files are uploaded to trigger auto-detection
+    setFields([]);
+    setMapping({});
+    setStep(AppStep.MAPPING);
+    notify('檔案讀取成功！', 'success');
+  };
+
   const handleFilesSelected = async (files: File[]) => {
     setLoading(true);
     try {
-      const extractedSheets = await readExcelFiles(files);
-      if (extractedSheets.length === 0) {
-        notify('無法讀取檔案或檔案為空。', 'error');
-        setLoading(false);
+      const extractedSheets = await readDataFiles(files.filter(f => !isDelimitedFile(f.name)));
+      const delimitedFiles = files.filter(f => isDelimitedFile(f.name));
+      if (delimitedFiles.length > 0) {
+        const queue = await Promise.all(delimitedFiles.map(async file => ({ file, bytes: new Uint8Array(await file.arrayBuffer()) })));
+        setPendingSheets(extractedSheets);
+        setDelimitedQueue(queue);
         return;
       }
-      setSheets(extractedSheets);
-      // Reset mapping/fields when new files are uploaded to trigger auto-detection
-      setFields([]);
-      setMapping({});
-      setStep(AppStep.MAPPING);
-      notify('檔案讀取成功！', 'success');
+      finishImport(extractedSheets);
     } catch (error) {
       console.error(error);
-      notify('讀取 Excel 失敗，請確認格式。', 'error');
+      notify('讀取檔案失敗，請確認格式。', 'error');
     } finally {
       setLoading(false);
     }
   };
 
+  const advanceDelimitedQueue = (sheet?: SheetData) => {
+    const collected = sheet ? [...pendingSheets, sheet] : pendingSheets;
+    const rest = delimitedQueue.slice(1);
+    setDelimitedQueue(rest);
+    if (rest.length > 0) {
+      setPendingSheets(collected);
+      return;
+    }
+    setPendingSheets([]);
+    finishImport(collected);
+  };
+
+  const cancelDelimitedImport = () => {
+    setDelimitedQueue([]);
+    setPendingSheets([]);
+  };
+
   const handleLoadSample = () => {
     setLoading(true);
     setTimeout(() => {
@@ -133,10 +182,20 @@ function App() {
     
     setTimeout(() => {
       try {
-        const data = mergeData(orderedSheets, newMapping, newMergeConfig);
-        setMergedData(data);
+        const result = mergeDataWithReport(orderedSheets, newMapping, newMergeConfig, definedFields);
+        const computed = applyComputedFields(result.rows, definedFields);
+        setMergedData(computed.rows);
+        setDuplicateReport(result.duplicates);
+        setReconciliation(result.reconciliation);
         setStep(AppStep.PREVIEW);
-        notify('資料合併成功！', 'success');
+        const duplicateRows = result.duplicates.reduce((sum, d) => sum + d.duplicateRows, 0);
+        if (computed.errors.length > 0) {
+          notify(`資料已合併，但計算欄位無法計算：${computed.errors.join('；')}`, 'error');
+        } else if (duplicateRows > 0) {
+          notify(`資料合併成功！偵測到 ${duplicateRows} 筆 Key 重複列`, 'info');
+        } else {
+          notify('資料合併成功！', 'success');
+        }
       } catch (e) {
         console.error(e);
         notify('合併資料時發生錯誤', 'error');
@@ -156,9 +215,11 @@ function App() {
     setStep(AppStep.UPLOAD);
     setSheets([]);
     setMergedData([]);
+    setDuplicateReport([]);
+    setReconciliation([]);
     setFields([]);
     setMapping({});
-    setMergeConfig({ method: 'join', joinKey: '', joinType: 'outer', removeDuplicates: true }); // Reset to 'join'
+    setMergeConfig(DEFAULT_MERGE_CONFIG); // Reset to 'join'
     if (targetMode) {
       setMode(targetMode);
     }
@@ -211,6 +272,18 @@ function App() {
         onCancel={() => setModalConfig(prev => ({ ...prev, isOpen: false }))}
       />
 
+      {delimitedQueue.length > 0 && (
+        <DelimitedImportDialog
+          key={`${delimitedQueue[0].file.name}-${delimitedQueue.length}`}
+          fileName={delimitedQueue[0].file.name}
+          bytes={delimitedQueue[0].bytes}
+          remaining={delimitedQueue.length - 1}
+          onConfirm={advanceDelimitedQueue}
+          onSkip={() => advanceDelimitedQueue()}
+          onCancel={cancelDelimitedImport}
+        />
+      )}
+
       <header className="fixed top-0 left-0 right-0 h-16 bg-white border-b border-slate-200 z-[1000] shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-full">
           <div className="flex justify-between h-full items-center">
@@ -304,6 +377,9 @@ function App() {
                 <MasterTable 
                   data={mergedData} 
                   fields={fields}
+                  duplicateReport={duplicateReport}
+                  reconciliation={reconciliation}
+                  removeDuplicates={mergeConfig.method === 'join' && mergeConfig.removeDuplicates}
                   onDataUpdate={setMergedData}
                   onBack={handleBackToMapping}
                   onReset={handleFullReset} 
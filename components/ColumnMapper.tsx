@@ -1,7 +1,58 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Plus, X, Trash2, GitMerge, Layers, Key, GripVertical, Info, FileSpreadsheet, MoveRight, MousePointer2, Star, RotateCcw } from 'lucide-react';
-import { SheetData, FieldDefinition, MergeConfig, JoinType } from '../types';
+import { Plus, X, Trash2, GitMerge, Layers, Key, GripVertical, Info, FileSpreadsheet, MoveRight, MousePointer2, Star, RotateCcw, ArrowUp, Sigma, BookMarked, AlertTriangle, BookOpen, Check, Sparkles, ScanSearch, SquareFunction, WandSparkles } from 'lucide-react';
+import { SheetData, FieldDefinition, MergeConfig, JoinType, DuplicateStrategy, KeyNormalization, FuzzyKeyMatch, ConflictPolicy, ConflictPolicyType, MergeMethod, AggregationType, FieldType, MappingTemplate, HeaderSynonymGroup, HeaderMatchProposal, ColumnMatchSuggestion, SourceTransform } from '../types';
+import { findFuzzyKeyMatches, getSheetId, applyHeaderRows, applySheetLayout, parseCellRange } from '../utils/excelUtils';
+import { DEFAULT_KEY_NORMALIZATION } from '../utils/keyMatching';
 import { ToastType } from './Toast';
+import { FuzzyMatchDialog } from './FuzzyMatchDialog';
+import { MappingTemplatePanel } from './MappingTemplatePanel';
+import { SynonymDictionaryDialog } from './SynonymDictionaryDialog';
+import { ColumnMatchDialog } from './ColumnMatchDialog';
+import { SourceTransformDialog } from './SourceTransformDialog';
+import { clusterHeaders, loadHeaderSynonyms, saveHeaderSynonyms } from '../utils/headerMatching';
+import { createMappingTemplate, applyMappingTemplate } from '../utils/mappingTemplates';
+import { suggestColumnMatches } from '../utils/columnProfiling';
+import { validateFormula, renameFormulaField, isComputedField, FORMULA_FUNCTION_NAMES } from '../utils/formula';
+import { describeSourceTransform } from '../utils/sourceTransforms';
+
+const NORMALIZATION_OPTIONS: { key: keyof KeyNormalization; label: string }[] = [
+  { key: 'caseFold', label: '忽略大小寫 (n001 = N001)' },
+  { key: 'fullWidthToHalf', label: '全形轉半形 (Ｎ００１ = N001)' },
+  { key: 'stripLeadingZeros', label: '忽略前導零 (00123 = 123)' },
+  { key: 'removePunctuation', label: '忽略標點符號 (N-001 = N001)' },
+  { key: 'removeSpaces', label: '忽略空白 (N 001 = N001)' },
+];
+
+const CONFLICT_POLICY_OPTIONS: { value: ConflictPolicyType; label: string }[] = [
+  { value: 'first', label: '依檔案優先順序取第一個' },
+  { value: 'last', label: '取最後一個檔案的值' },
+  { value: 'longest', label: '取最長的值' },
+  { value: 'max', label: '取最大值 (數值)' },
+  { value: 'min', label: '取最小值 (數值)' },
+  { value: 'latest', label: '依日期欄位取最新' },
+  { value: 'concat', label: '串接所有不同值' },
+  { value: 'flag', label: '標記為衝突 (取第一個)' },
+];
+
+const AGGREGATION_OPTIONS: { value: AggregationType; label: string }[] = [
+  { value: 'first', label: '第一個值' },
+  { value: 'sum', label: '加總 (Sum)' },
+  { value: 'count', label: '筆數 (Count)' },
+  { value: 'avg', label: '平均 (Average)' },
+  { value: 'min', label: '最小值 (Min)' },
+  { value: 'max', label: '最大值 (Max)' },
+  { value: 'distinct', label: '不重複筆數 (Distinct)' },
+];
+
+const FIELD_TYPE_OPTIONS: { value: FieldType; label: string }[] = [
+  { value: 'string', label: '文字' },
+  { value: 'number', label: '數值' },
+  { value: 'currency', label: '金額' },
+  { value: 'percent', label: '百分比' },
+  { value: 'date', label: '日期' },
+  { value: 'text-id', label: '編號 (保留前導零)' },
+  { value: 'boolean', label: '是/否' },
+];
 
 interface ColumnMapperProps {
   sheets: SheetData[];
@@ -28,12 +79,29 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
   // Mapping will now store unique strings: "fileName::sheetName::headerName"
   const [mapping, setMapping] = useState<Record<string, string[]>>({});
   
-  const [mergeMethod, setMergeMethod] = useState<'vertical' | 'join'>(initialMergeConfig?.method || 'join');
-  const [joinKey, setJoinKey] = useState<string>(initialMergeConfig?.joinKey || '');
+  const [mergeMethod, setMergeMethod] = useState<MergeMethod>(initialMergeConfig?.method || 'join');
+  const [joinKeys, setJoinKeys] = useState<string[]>(initialMergeConfig?.joinKeys || []);
   const [joinType, setJoinType] = useState<JoinType>(initialMergeConfig?.joinType || 'outer');
   const [removeDuplicates, setRemoveDuplicates] = useState<boolean>(initialMergeConfig?.removeDuplicates ?? true);
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>(initialMergeConfig?.duplicateStrategy || 'first');
+  const [keyNormalization, setKeyNormalization] = useState<KeyNormalization>(initialMergeConfig?.keyNormalization || DEFAULT_KEY_NORMALIZATION);
+  const [fuzzyEnabled, setFuzzyEnabled] = useState<boolean>(initialMergeConfig?.fuzzyMatch?.enabled ?? false);
+  const [fuzzyThreshold, setFuzzyThreshold] = useState<number>(initialMergeConfig?.fuzzyMatch?.threshold ?? 0.8);
+  const [fuzzyProposals, setFuzzyProposals] = useState<FuzzyKeyMatch[] | null>(null);
+  const [requiredSheets, setRequiredSheets] = useState<string[]>(initialMergeConfig?.requiredSheets || []);
+  const [conflictPolicies, setConflictPolicies] = useState<Record<string, ConflictPolicy>>(initialMergeConfig?.conflictPolicies || {});
+  const [groupByFields, setGroupByFields] = useState<string[]>(initialMergeConfig?.groupByFields || []);
+  const [aggregations, setAggregations] = useState<Record<string, AggregationType>>(initialMergeConfig?.aggregations || {});
+  const [sourceTransforms, setSourceTransforms] = useState<Record<string, SourceTransform>>(initialMergeConfig?.sourceTransforms || {});
+  const [editingTransformId, setEditingTransformId] = useState<string | null>(null);
 
   const [newFieldName, setNewFieldName] = useState('');
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [templateReport, setTemplateReport] = useState<{ name: string; unmatched: string[] } | null>(null);
+  const [synonyms, setSynonyms] = useState<HeaderSynonymGroup[]>(loadHeaderSynonyms);
+  const [showSynonyms, setShowSynonyms] = useState(false);
+  const [headerProposals, setHeaderProposals] = useState<HeaderMatchProposal[]>([]);
+  const [contentSuggestions, setContentSuggestions] = useState<ColumnMatchSuggestion[] | null>(null);
   const [draggedTag, setDraggedTag] = useState<{headerId: string, fromKey: string} | null>(null);
   const [draggedFieldIndex, setDraggedFieldIndex] = useState<number | null>(null);
   const [draggedSheetIndex, setDraggedSheetIndex] = useState<number | null>(null);
@@ -55,29 +123,23 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
   }, [orderedSheets]);
 
   // 1. Initial Auto-detection Logic
+  // Identical headers share a field; synonyms and look-alikes join one too but stay as proposals to confirm
   const performAutoDetection = useCallback(() => {
-    const headersMap = new Map<string, string[]>(); // label -> list of unique IDs
-    orderedSheets.forEach(sheet => {
-      sheet.headers.forEach(h => {
-        if (!headersMap.has(h)) headersMap.set(h, []);
-        headersMap.get(h)!.push(getHeaderId(sheet, h));
-      });
-    });
-
-    const allLabels = Array.from(headersMap.keys());
-    const suggestedFields: FieldDefinition[] = allLabels.map(h => ({
-      key: h, label: h, type: 'string'
+    const clusters = clusterHeaders(orderedSheets, synonyms);
+    const suggestedFields: FieldDefinition[] = clusters.map(c => ({
+      key: c.label, label: c.label, type: 'string'
     }));
     
     setFields(suggestedFields);
     
     const initialMap: Record<string, string[]> = {};
-    allLabels.forEach(label => {
-      initialMap[label] = headersMap.get(label) || [];
+    clusters.forEach(c => {
+      initialMap[c.label] = c.headerIds;
     });
     setMapping(initialMap);
-    if (suggestedFields.length > 0) setJoinKey(suggestedFields[0].key);
-  }, [orderedSheets]);
+    setHeaderProposals(clusters.flatMap(c => c.proposals));
+    if (suggestedFields.length > 0) setJoinKeys([suggestedFields[0].key]);
+  }, [orderedSheets, synonyms]);
 
   useEffect(() => {
     if (fields.length === 0) {
@@ -123,11 +185,61 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
     onNotify('文件優先順序已調整，欄位對應即時更新', 'info');
   };
 
+  // --- Header Rows & Cell Range ---
+  // Replaces a re-read sheet and swaps its tags in the mapping; new header names become new fields
+  const replaceSheet = (sheetIndex: number, updated: SheetData, message: string) => {
+    const prefix = `${getSheetId(updated)}::`;
+
+    const nextMapping: Record<string, string[]> = {};
+    Object.keys(mapping).forEach(key => {
+      nextMapping[key] = mapping[key].filter(id => !id.startsWith(prefix));
+    });
+    const newFields: FieldDefinition[] = [];
+    updated.headers.forEach(h => {
+      if (!nextMapping[h]) {
+        nextMapping[h] = [];
+        if (!fields.some(f => f.key === h)) newFields.push({ key: h, label: h, type: 'string' });
+      }
+      nextMapping[h].push(getHeaderId(updated, h));
+    });
+
+    setOrderedSheets(prev => prev.map((s, i) => i === sheetIndex ? updated : s));
+    setFields(prev => [...prev, ...newFields]);
+    setMapping(nextMapping);
+    onNotify(message, 'info');
+  };
+
+  const handleHeaderRowsChange = (sheetIndex: number, headerRowIndex: number, headerRowCount: number) => {
+    const sheet = orderedSheets[sheetIndex];
+    const maxIndex = (sheet.rawRows?.length || 1) - 1;
+    const updated = applyHeaderRows(sheet, Math.min(Math.max(headerRowIndex, 0), maxIndex), headerRowCount);
+    replaceSheet(sheetIndex, updated, `已重新讀取「${sheet.sheetName}」的標題列`);
+  };
+
+  const handleCellRangeChange = (sheetIndex: number, text: string) => {
+    const sheet = orderedSheets[sheetIndex];
+    const cellRange = text.trim().toUpperCase();
+    if (cellRange === (sheet.cellRange || '')) return;
+    if (cellRange && !parseCellRange(cellRange)) {
+      onNotify('儲存格範圍格式錯誤，請輸入如 B4:K200', 'error');
+      return;
+    }
+    const updated = applySheetLayout(sheet, { cellRange, fillMergedCells: sheet.fillMergedCells });
+    replaceSheet(sheetIndex, updated, cellRange ? `「${sheet.sheetName}」改為讀取 ${cellRange}` : `「${sheet.sheetName}」改為讀取整張工作表`);
+  };
+
+  const handleFillMergedChange = (sheetIndex: number, fillMergedCells: boolean) => {
+    const sheet = orderedSheets[sheetIndex];
+    const updated = applySheetLayout(sheet, { cellRange: sheet.cellRange, fillMergedCells });
+    replaceSheet(sheetIndex, updated, fillMergedCells ? '已填滿合併儲存格' : '已取消填滿合併儲存格');
+  };
+
   // --- Field Handlers ---
   const handleResetMapping = () => {
     // Clear all manual mappings and trigger detection again
     setFields([]);
     setMapping({});
+    setSourceTransforms({});
     onNotify('對應關係已根據目前文件順序重置', 'success');
   };
 
@@ -143,8 +255,40 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
     setNewFieldName('');
   };
 
+  // Computed fields take no source headers; their formula is evaluated after merging
+  const handleAddComputedField = () => {
+    let key = newFieldName.trim();
+    if (!key) {
+      key = '計算欄位';
+      for (let n = 2; fields.some(f => f.key === key); n++) key = `計算欄位 ${n}`;
+    } else if (fields.some(f => f.key === key)) {
+      onNotify('該欄位名稱已存在', 'error');
+      return;
+    }
+    setFields(prev => [...prev, { key, label: key, type: 'number', formula: '' }]);
+    setMapping(prev => ({ ...prev, [key]: [] }));
+    setNewFieldName('');
+  };
+
+  const updateFormula = (key: string, formula: string) => {
+    setFields(prev => prev.map(f => f.key === key ? { ...f, formula } : f));
+  };
+
   const handleRemoveField = (key: string) => {
     setFields(prev => prev.filter(f => f.key !== key));
+    setHeaderProposals(prev => prev.filter(p => p.fieldKey !== key));
+    setJoinKeys(prev => prev.filter(k => k !== key));
+    setConflictPolicies(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    setGroupByFields(prev => prev.filter(k => k !== key));
+    setAggregations(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
     setMapping(prev => {
       const next = { ...prev };
       delete next[key];
@@ -154,7 +298,10 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
 
   const handleRenameField = (oldKey: string, newLabel: string) => {
     if (!newLabel.trim() || newLabel === oldKey) return;
-    setFields(prev => prev.map(f => f.key === oldKey ? { ...f, label: newLabel, key: newLabel } : f));
+    setFields(prev => prev.map(f => {
+      const renamed = f.key === oldKey ? { ...f, label: newLabel, key: newLabel } : f;
+      return renamed.formula ? { ...renamed, formula: renameFormulaField(renamed.formula, oldKey, newLabel) } : renamed;
+    }));
     setMapping(prev => {
       const next = { ...prev };
       const data = next[oldKey];
@@ -162,7 +309,33 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
       next[newLabel] = data;
       return next;
     });
-    if (joinKey === oldKey) setJoinKey(newLabel);
+    setJoinKeys(prev => prev.map(k => k === oldKey ? newLabel : k));
+    setHeaderProposals(prev => prev.map(p => p.fieldKey === oldKey ? { ...p, fieldKey: newLabel } : p));
+    setConflictPolicies(prev => {
+      const next: Record<string, ConflictPolicy> = {};
+      Object.entries(prev).forEach(([k, policy]: [string, ConflictPolicy]) => {
+        const renamed = policy.dateField === oldKey ? { ...policy, dateField: newLabel } : policy;
+        next[k === oldKey ? newLabel : k] = renamed;
+      });
+      return next;
+    });
+    setGroupByFields(prev => prev.map(k => k === oldKey ? newLabel : k));
+    setAggregations(prev => {
+      const next = { ...prev };
+      if (next[oldKey]) {
+        next[newLabel] = next[oldKey];
+        delete next[oldKey];
+      }
+      return next;
+    });
+  };
+
+  const updateConflictPolicy = (fieldKey: string, patch: Partial<ConflictPolicy>) => {
+    setConflictPolicies(prev => {
+      const next = { ...prev, [fieldKey]: { ...(prev[fieldKey] || { type: 'first' }), ...patch } };
+      if (next[fieldKey].type === 'first') delete next[fieldKey];
+      return next;
+    });
   };
 
   // --- Tag Logic ---
@@ -177,7 +350,7 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
     e.preventDefault();
     const hId = e.dataTransfer.getData('headerId');
     const fK = e.dataTransfer.getData('fromKey');
-    if (!hId || !fK || fK === targetKey) {
+    if (!hId || !fK || fK === targetKey || fields.find(f => f.key === targetKey)?.formula !== undefined) {
         setDraggedTag(null);
         return;
     }
@@ -193,18 +366,212 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
     setDraggedTag(null);
   };
 
+  const buildMergeConfig = (keyAliases: Record<string, string> = {}): MergeConfig => ({
+    method: mergeMethod, joinKeys, joinType, removeDuplicates, duplicateStrategy, keyNormalization,
+    fuzzyMatch: { enabled: fuzzyEnabled, threshold: fuzzyThreshold },
+    keyAliases,
+    requiredSheets: requiredSheets.filter(id => orderedSheets.some(s => getSheetId(s) === id)),
+    conflictPolicies,
+    groupByFields,
+    aggregations,
+    sourceTransforms
+  });
+
+  // --- Header Match Proposals ---
+  // Tags the user has since dragged elsewhere no longer count as proposals
+  const pendingProposals = headerProposals.filter(p => p.headerIds.some(id => (mapping[p.fieldKey] || []).includes(id)));
+
+  const acceptProposal = (proposal: HeaderMatchProposal) => {
+    setHeaderProposals(prev => prev.filter(p => p !== proposal));
+  };
+
+  // Moves the header out into a field of its own, as plain auto-detection would have done
+  const rejectProposal = (proposal: HeaderMatchProposal) => {
+    let key = proposal.header;
+    for (let n = 2; fields.some(f => f.key === key); n++) key = `${proposal.header} (${n})`;
+    setFields(prev => [...prev, { key, label: key, type: 'string' }]);
+    setMapping(prev => ({
+      ...prev,
+      [proposal.fieldKey]: (prev[proposal.fieldKey] || []).filter(id => !proposal.headerIds.includes(id)),
+      [key]: proposal.headerIds,
+    }));
+    setHeaderProposals(prev => prev.filter(p => p !== proposal));
+  };
+
+  const getProposalForTag = (fieldKey: string, headerId: string) =>
+    pendingProposals.find(p => p.fieldKey === fieldKey && p.headerIds.includes(headerId));
+
+  const handleSaveSynonyms = (groups: HeaderSynonymGroup[]) => {
+    try {
+      saveHeaderSynonyms(groups);
+    } catch (e) {
+      console.error(e);
+      onNotify('無法儲存字典 (瀏覽器儲存空間不足或已停用)，僅套用於本次', 'error');
+    }
+    setSynonyms(groups);
+    setShowSynonyms(false);
+    // Clearing the fields re-runs auto-detection with the new dictionary
+    setFields([]);
+    setMapping({});
+    onNotify('同義詞字典已更新，已重新偵測欄位對應', 'success');
+  };
+
+  // --- Source Transforms ---
+  // A few distinct values of the column being edited, for the dialog's preview
+  const getSampleValues = (headerId: string) => {
+    const { fileName, sheetName, name } = parseHeaderId(headerId);
+    const sheet = orderedSheets.find(s => s.fileName === fileName && s.sheetName === sheetName);
+    const values = new Map<string, any>();
+    for (const row of sheet?.rows || []) {
+      const v = row[name];
+      if (v === undefined || v === null || String(v).trim() === '') continue;
+      if (!values.has(String(v).trim())) values.set(String(v).trim(), v);
+      if (values.size >= 8) break;
+    }
+    return Array.from(values.values());
+  };
+
+  const handleSaveTransform = (headerId: string, transform: SourceTransform | null) => {
+    setSourceTransforms(prev => {
+      const next = { ...prev };
+      if (transform) next[headerId] = transform;
+      else delete next[headerId];
+      return next;
+    });
+    setEditingTransformId(null);
+  };
+
+  // --- Content-based Suggestions ---
+  // Header names like Column_1 say nothing; compare the values instead
+  const handleSuggestByContent = () => {
+    const suggestions = suggestColumnMatches(orderedSheets, mapping);
+    if (suggestions.length === 0) {
+      onNotify('依內容比對未找到更合適的欄位對應', 'info');
+      return;
+    }
+    setContentSuggestions(suggestions);
+  };
+
+  const handleContentSuggestionsConfirm = (accepted: ColumnMatchSuggestion[]) => {
+    setContentSuggestions(null);
+    if (accepted.length === 0) return;
+    const sheetOf = (id: string) => id.split('::').slice(0, 2).join('::');
+    const next = { ...mapping };
+    let moved = 0;
+    accepted.forEach(s => {
+      // An earlier move may already have put a column from the same sheet there
+      if ((next[s.toFieldKey] || []).some(id => sheetOf(id) === sheetOf(s.headerId))) return;
+      if (s.fromFieldKey) next[s.fromFieldKey] = (next[s.fromFieldKey] || []).filter(id => id !== s.headerId);
+      next[s.toFieldKey] = [...(next[s.toFieldKey] || []), s.headerId];
+      moved++;
+    });
+    setMapping(next);
+    // Fields whose only columns were moved away would export as blank columns
+    const emptied = Array.from(new Set(accepted.map(s => s.fromFieldKey))).filter(key => key && (next[key] || []).length === 0);
+    emptied.forEach(handleRemoveField);
+    onNotify(`已依內容移動 ${moved} 個欄位${emptied.length > 0 ? `，並移除 ${emptied.length} 個已無來源的目標欄位` : ''}`, 'success');
+  };
+
+  // --- Mapping Templates ---
+  const handleApplyTemplate = (template: MappingTemplate) => {
+    const { fields: templateFields, mapping: templateMapping, mergeConfig, unmatchedFields } = applyMappingTemplate(template, orderedSheets);
+    setFields(templateFields);
+    setMapping(templateMapping);
+    setMergeMethod(mergeConfig.method || 'join');
+    setJoinKeys(mergeConfig.joinKeys || []);
+    setJoinType(mergeConfig.joinType || 'outer');
+    setRemoveDuplicates(mergeConfig.removeDuplicates ?? true);
+    setDuplicateStrategy(mergeConfig.duplicateStrategy || 'first');
+    setKeyNormalization(mergeConfig.keyNormalization || DEFAULT_KEY_NORMALIZATION);
+    setFuzzyEnabled(mergeConfig.fuzzyMatch?.enabled ?? false);
+    setFuzzyThreshold(mergeConfig.fuzzyMatch?.threshold ?? 0.8);
+    setRequiredSheets([]);
+    setConflictPolicies(mergeConfig.conflictPolicies || {});
+    setGroupByFields(mergeConfig.groupByFields || []);
+    setAggregations(mergeConfig.aggregations || {});
+    setSourceTransforms({});
+    setTemplateReport({ name: template.name, unmatched: unmatchedFields });
+    setHeaderProposals([]);
+    setShowTemplates(false);
+    if (unmatchedFields.length > 0) {
+      onNotify(`已套用範本「${template.name}」，${unmatchedFields.length} 個欄位找不到來源`, 'info');
+    } else {
+      onNotify(`已套用範本「${template.name}」，所有欄位皆已對應`, 'success');
+    }
+  };
+
+  const toggleRequiredSheet = (sheet: SheetData) => {
+    const id = getSheetId(sheet);
+    setRequiredSheets(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  // A computed field whose formula was left blank is confirmed as an ordinary column, the way isComputedField reads it
+  const getConfirmedFields = (): FieldDefinition[] => fields.map(f => {
+    if (f.formula === undefined || isComputedField(f)) return f;
+    const { formula, ...field } = f;
+    return field;
+  });
+
   const handleConfirm = () => {
-    if (mergeMethod === 'join' && !joinKey) {
+    for (const field of fields.filter(isComputedField)) {
+      const error = validateFormula(field, fields);
+      if (error) {
+        onNotify(`計算欄位「${field.label}」的公式有誤：${error}`, 'error');
+        return;
+      }
+    }
+    if (mergeMethod === 'join' && joinKeys.length === 0) {
       onNotify('請選擇一個合併鍵 (Key)', 'error');
       return;
     }
-    onConfirmMapping(mapping, fields, {
-      method: mergeMethod, joinKey, joinType, removeDuplicates
-    }, orderedSheets);
+    if (mergeMethod === 'aggregate' && groupByFields.length === 0) {
+      onNotify('請選擇至少一個分組欄位', 'error');
+      return;
+    }
+    if (mergeMethod === 'join' && fuzzyEnabled) {
+      const proposals = findFuzzyKeyMatches(orderedSheets, mapping, buildMergeConfig());
+      if (proposals.length > 0) {
+        setFuzzyProposals(proposals);
+        return;
+      }
+      onNotify('模糊比對未找到相似的 Key', 'info');
+    }
+    onConfirmMapping(mapping, getConfirmedFields(), buildMergeConfig(), orderedSheets);
+  };
+
+  const handleFuzzyConfirm = (accepted: FuzzyKeyMatch[]) => {
+    const keyAliases: Record<string, string> = {};
+    accepted.forEach(m => { keyAliases[m.key] = m.matchKey; });
+    setFuzzyProposals(null);
+    onConfirmMapping(mapping, getConfirmedFields(), buildMergeConfig(keyAliases), orderedSheets);
   };
 
   return (
     <div className="flex-1 bg-slate-50 flex flex-col h-[calc(100vh-140px)] overflow-hidden">
+      {showSynonyms && (
+        <SynonymDictionaryDialog groups={synonyms} onSave={handleSaveSynonyms} onCancel={() => setShowSynonyms(false)} />
+      )}
+      {editingTransformId && (
+        <SourceTransformDialog
+          header={parseHeaderId(editingTransformId).name}
+          sheetLabel={`${parseHeaderId(editingTransformId).fileName} / ${parseHeaderId(editingTransformId).sheetName}`}
+          sampleValues={getSampleValues(editingTransformId)}
+          transform={sourceTransforms[editingTransformId]}
+          onSave={transform => handleSaveTransform(editingTransformId, transform)}
+          onCancel={() => setEditingTransformId(null)}
+        />
+      )}
+      {contentSuggestions && (
+        <ColumnMatchDialog
+          suggestions={contentSuggestions}
+          fieldLabels={Object.fromEntries(fields.map(f => [f.key, f.label]))}
+          onConfirm={handleContentSuggestionsConfirm}
+          onCancel={() => setContentSuggestions(null)}
+        />
+      )}
+      {fuzzyProposals && (
+        <FuzzyMatchDialog matches={fuzzyProposals} onConfirm={handleFuzzyConfirm} onCancel={() => setFuzzyProposals(null)} />
+      )}
       <div className="max-w-6xl w-full mx-auto p-6 space-y-6 overflow-y-auto custom-scrollbar pb-32">
         
         {/* Step 1: Sheet Reordering (Priority Context) */}
@@ -242,6 +609,62 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
                        </div>
                        <GripVertical size={16} className="text-slate-300 group-hover:text-slate-400 shrink-0 mt-1" />
                     </div>
+                    {sheet.sourceGrid && (
+                       <div className="flex flex-col gap-1.5 text-[11px] text-slate-500">
+                          <label className="flex items-center gap-1" title="只讀取此範圍，留白表示整張工作表">
+                             範圍
+                             <input
+                                key={sheet.cellRange || ''}
+                                type="text"
+                                defaultValue={sheet.cellRange || ''}
+                                placeholder="例如 B4:K200"
+                                onBlur={e => handleCellRangeChange(idx, e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                                className="w-28 px-1.5 py-0.5 border border-slate-200 rounded bg-white outline-none focus:ring-2 focus:ring-blue-500 font-mono uppercase"
+                             />
+                          </label>
+                          {(sheet.merges?.length || 0) > 0 && (
+                             <label className="flex items-center gap-1.5 cursor-pointer">
+                                <input type="checkbox" checked={!!sheet.fillMergedCells} onChange={e => handleFillMergedChange(idx, e.target.checked)} className="w-3.5 h-3.5 rounded border-slate-300 text-blue-600" />
+                                填滿合併儲存格 ({sheet.merges!.length})
+                             </label>
+                          )}
+                       </div>
+                    )}
+                    {sheet.rawRows && (
+                       <div className="flex items-center gap-2 text-[11px] text-slate-500">
+                          <label className="flex items-center gap-1" title="標題所在的列號 (已自動偵測)">
+                             標題列
+                             <input
+                                type="number"
+                                min={1}
+                                max={sheet.rawRows.length}
+                                value={(sheet.headerRowIndex ?? 0) + 1}
+                                onChange={e => handleHeaderRowsChange(idx, (parseInt(e.target.value) || 1) - 1, sheet.headerRowCount ?? 1)}
+                                className="w-12 px-1 py-0.5 border border-slate-200 rounded bg-white outline-none focus:ring-2 focus:ring-blue-500"
+                             />
+                          </label>
+                          <label className="flex items-center gap-1" title="多列標題會合併為「上層_下層」欄名">
+                             列數
+                             <select
+                                value={sheet.headerRowCount ?? 1}
+                                onChange={e => handleHeaderRowsChange(idx, sheet.headerRowIndex ?? 0, parseInt(e.target.value))}
+                                className="px-1 py-0.5 border border-slate-200 rounded bg-white outline-none focus:ring-2 focus:ring-blue-500"
+                             >
+                                {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+                             </select>
+                          </label>
+                       </div>
+                    )}
+                    {mergeMethod === 'join' && (
+                       <button
+                          onClick={() => toggleRequiredSheet(sheet)}
+                          className={`self-start text-[10px] font-bold px-2 py-0.5 rounded-full border transition-colors ${requiredSheets.includes(getSheetId(sheet)) ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-slate-500 border-slate-300 hover:border-purple-400'}`}
+                          title="必要：合併結果中的每個 Key 都必須出現在此檔案"
+                       >
+                          {requiredSheets.includes(getSheetId(sheet)) ? '必要 (Required)' : '選用 (Optional)'}
+                       </button>
+                    )}
                  </div>
               ))}
            </div>
@@ -261,6 +684,42 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
                             <RotateCcw size={16} />
                             重置
                         </button>
+                        <button 
+                            onClick={() => setShowSynonyms(true)}
+                            className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-500 rounded-xl hover:text-indigo-600 hover:border-indigo-200 transition-all text-sm font-medium shadow-sm active:scale-95"
+                            title="編輯自動偵測使用的標題同義詞"
+                        >
+                            <BookOpen size={16} />
+                            同義詞
+                        </button>
+                        <button 
+                            onClick={handleSuggestByContent}
+                            className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-500 rounded-xl hover:text-indigo-600 hover:border-indigo-200 transition-all text-sm font-medium shadow-sm active:scale-95"
+                            title="依欄位內容 (共同值、格式、數值範圍) 建議對應"
+                        >
+                            <ScanSearch size={16} />
+                            依內容建議
+                        </button>
+                        <div className="relative">
+                            <button 
+                                onClick={() => setShowTemplates(!showTemplates)}
+                                className={`flex items-center gap-2 px-3 py-2 border rounded-xl transition-all text-sm font-medium shadow-sm active:scale-95 ${showTemplates ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200'}`}
+                                title="儲存或套用欄位對應範本"
+                            >
+                                <BookMarked size={16} />
+                                範本
+                            </button>
+                            {showTemplates && (
+                                <div className="absolute left-0 top-full mt-2 w-80 bg-white rounded-xl shadow-xl border border-slate-200 z-50 p-4 animate-in fade-in zoom-in-95 duration-100">
+                                    <div className="text-xs font-bold text-slate-500 mb-3">欄位對應範本</div>
+                                    <MappingTemplatePanel
+                                        buildTemplate={name => createMappingTemplate(name, fields, mapping, buildMergeConfig())}
+                                        onApply={handleApplyTemplate}
+                                        onNotify={onNotify}
+                                    />
+                                </div>
+                            )}
+                        </div>
                         <input 
                             type="text" 
                             value={newFieldName} 
@@ -275,13 +734,62 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
                         >
                             <Plus size={18} /> 新增
                         </button>
+                        <button 
+                            onClick={handleAddComputedField} 
+                            className="flex items-center gap-1 px-3 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl hover:text-indigo-600 hover:border-indigo-200 transition-all text-sm font-bold shadow-sm active:scale-95"
+                            title="新增以公式計算的欄位，例如 Base_Salary * 12"
+                        >
+                            <SquareFunction size={18} /> 計算欄位
+                        </button>
                     </div>
                 </div>
 
+                {pendingProposals.length > 0 && (
+                    <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-2xl text-sm">
+                        <div className="flex items-center justify-between gap-3 mb-3">
+                            <div className="font-bold text-indigo-900 flex items-center gap-2">
+                                <Sparkles size={16} /> 自動偵測將 {pendingProposals.length} 個相似標題合併到同一欄位，請確認
+                            </div>
+                            <button onClick={() => setHeaderProposals([])} className="text-xs font-bold text-indigo-700 hover:underline">全部接受</button>
+                        </div>
+                        <div className="flex flex-col gap-1.5 max-h-48 overflow-y-auto custom-scrollbar">
+                            {pendingProposals.map(p => (
+                                <div key={`${p.fieldKey}::${p.header}`} className="flex items-center gap-2 bg-white rounded-lg px-3 py-1.5 border border-indigo-100">
+                                    <span className="font-medium text-slate-700 truncate">{p.header}</span>
+                                    <MoveRight size={14} className="text-slate-400 shrink-0" />
+                                    <span className="font-bold text-slate-800 truncate">{fields.find(f => f.key === p.fieldKey)?.label || p.fieldKey}</span>
+                                    <span className="text-[11px] text-slate-400">{p.reason === 'synonym' ? '同義詞' : '名稱相似'}</span>
+                                    <span className={`ml-auto shrink-0 text-xs font-bold px-2 py-0.5 rounded-full ${p.confidence >= 0.9 ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                                        {Math.round(p.confidence * 100)}%
+                                    </span>
+                                    <button onClick={() => acceptProposal(p)} className="p-1 rounded text-green-600 hover:bg-green-50" title="接受"><Check size={14} /></button>
+                                    <button onClick={() => rejectProposal(p)} className="p-1 rounded text-red-500 hover:bg-red-50" title="拒絕，改為獨立欄位"><X size={14} /></button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {templateReport && templateReport.unmatched.length > 0 && (
+                    <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-2xl text-sm text-amber-800">
+                        <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+                        <div className="flex-1">
+                            <div className="font-bold">範本「{templateReport.name}」有 {templateReport.unmatched.length} 個目標欄位找不到來源</div>
+                            <div className="text-xs mt-1">{templateReport.unmatched.join('、')}</div>
+                            <div className="text-xs mt-1 text-amber-600">本月檔案的標題可能已更改，請將對應的標題拖曳到這些欄位。</div>
+                        </div>
+                        <button onClick={() => setTemplateReport(null)} className="text-amber-500 hover:text-amber-700"><X size={16} /></button>
+                    </div>
+                )}
+
                 <div className="space-y-3">
                     {fields.map((field, idx) => {
                         const selectedIds = mapping[field.key] || [];
-                        const isKey = field.key === joinKey && mergeMethod === 'join';
+                        const isKey = joinKeys.includes(field.key) && mergeMethod === 'join';
+                        const policy = conflictPolicies[field.key];
+                        const isGroupBy = groupByFields.includes(field.key) && mergeMethod === 'aggregate';
+                        const isComputed = field.formula !== undefined; // Includes a draft whose formula is still blank
+                        const formulaError = isComputedField(field) ? validateFormula(field, fields) : null;
                         return (
                         <div key={field.key} className={`grid grid-cols-12 gap-4 items-stretch bg-white border border-slate-200 rounded-2xl p-4 shadow-sm hover:shadow-md transition-all group ${isKey ? 'ring-2 ring-purple-500/20 border-purple-200' : ''}`}>
                             <div className="col-span-4 flex gap-4 items-start border-r border-slate-100 pr-4">
@@ -293,13 +801,83 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
                                     <div className="flex items-center gap-2">
                                         <input type="text" defaultValue={field.label} onBlur={e => handleRenameField(field.key, e.target.value)} className="flex-1 bg-transparent border-b border-transparent hover:border-slate-300 focus:border-blue-500 outline-none font-bold text-slate-800 py-0.5" />
                                         {isKey && <Key size={14} className="text-purple-600 shrink-0" />}
+                                        {isGroupBy && <Sigma size={14} className="text-emerald-600 shrink-0" />}
+                                        {isComputed && <SquareFunction size={14} className="text-indigo-600 shrink-0" />}
                                     </div>
                                     <div className="flex items-center gap-3">
-                                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold border uppercase ${field.type === 'number' ? 'bg-green-50 text-green-700 border-green-200' : 'bg-orange-50 text-orange-700 border-orange-200'}`}>{field.type === 'number' ? '數值' : '文字'}</span>
+                                        <select
+                                            value={field.type}
+                                            onChange={e => setFields(prev => prev.map(f => f.key === field.key ? { ...f, type: e.target.value as FieldType } : f))}
+                                            className={`px-1.5 py-0.5 rounded text-[10px] font-bold border outline-none ${field.type === 'string' ? 'bg-orange-50 text-orange-700 border-orange-200' : 'bg-green-50 text-green-700 border-green-200'}`}
+                                            title="匯出時的儲存格類型與格式"
+                                        >
+                                            {FIELD_TYPE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                                        </select>
                                         <button onClick={() => handleRemoveField(field.key)} className="text-slate-300 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
                                     </div>
+                                    {mergeMethod === 'aggregate' && !isGroupBy && !isComputed && (
+                                        <select
+                                            value={aggregations[field.key] || 'first'}
+                                            onChange={e => setAggregations(prev => ({ ...prev, [field.key]: e.target.value as AggregationType }))}
+                                            className={`w-full px-2 py-1 text-[11px] border rounded-lg outline-none focus:ring-2 focus:ring-emerald-500 ${aggregations[field.key] && aggregations[field.key] !== 'first' ? 'border-emerald-300 bg-emerald-50 text-emerald-800' : 'border-slate-200 bg-slate-50 text-slate-500'}`}
+                                            title="每個分組中此欄位的計算方式"
+                                        >
+                                            {AGGREGATION_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                                        </select>
+                                    )}
+                                    {mergeMethod === 'join' && !isKey && !isComputed && (
+                                        <div className="space-y-1">
+                                            <select
+                                                value={policy?.type || 'first'}
+                                                onChange={e => updateConflictPolicy(field.key, { type: e.target.value as ConflictPolicyType })}
+                                                className={`w-full px-2 py-1 text-[11px] border rounded-lg outline-none focus:ring-2 focus:ring-purple-500 ${policy ? 'border-purple-300 bg-purple-50 text-purple-800' : 'border-slate-200 bg-slate-50 text-slate-500'}`}
+                                                title="多個檔案提供不同值時的取值方式"
+                                            >
+                                                {CONFLICT_POLICY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                                            </select>
+                                            {policy?.type === 'latest' && (
+                                                <select
+                                                    value={policy.dateField || ''}
+                                                    onChange={e => updateConflictPolicy(field.key, { dateField: e.target.value })}
+                                                    className="w-full px-2 py-1 text-[11px] border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-purple-500 bg-white"
+                                                >
+                                                    <option value="">選擇日期欄位...</option>
+                                                    {fields.filter(f => f.key !== field.key && f.formula === undefined).map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                                                </select>
+                                            )}
+                                            {policy?.type === 'concat' && (
+                                                <input
+                                                    type="text"
+                                                    value={policy.separator ?? ', '}
+                                                    onChange={e => updateConflictPolicy(field.key, { separator: e.target.value })}
+                                                    placeholder="分隔符號"
+                                                    className="w-full px-2 py-1 text-[11px] border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-purple-500 bg-white"
+                                                />
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
+                            {isComputed ? (
+                            <div className="col-span-8 rounded-xl bg-indigo-50/40 p-2 flex flex-col gap-1.5">
+                                <input
+                                    type="text"
+                                    value={field.formula}
+                                    onChange={e => updateFormula(field.key, e.target.value)}
+                                    placeholder='例如 Base_Salary * 12、CONCAT(Entity, "-", EmpID)、IF(Job_Level >= 8, "Senior", "Junior")'
+                                    className={`w-full px-3 py-2 font-mono text-xs border rounded-lg outline-none focus:ring-2 bg-white ${formulaError ? 'border-red-300 focus:ring-red-400' : 'border-slate-200 focus:ring-indigo-500'}`}
+                                />
+                                {formulaError ? (
+                                    <div className="text-[11px] text-red-600 flex items-center gap-1"><AlertTriangle size={12} /> {formulaError}</div>
+                                ) : !isComputedField(field) ? (
+                                    <div className="text-[11px] text-slate-500">公式留空時，此欄位會當作一般欄位合併 (沒有來源欄位則為空白)。</div>
+                                ) : (
+                                    <div className="text-[10px] text-slate-400 leading-relaxed" title={FORMULA_FUNCTION_NAMES.join(', ')}>
+                                        以欄位名稱參照其他欄位 (含空格時用 [欄位名稱])；運算子 + - * / ^ &amp; = &lt;&gt; &lt; &gt;；函數 {FORMULA_FUNCTION_NAMES.join(', ')}
+                                    </div>
+                                )}
+                            </div>
+                            ) : (
                             <div onDragOver={e => e.preventDefault()} onDrop={e => onDropOnField(e, field.key)} className={`col-span-8 min-h-[70px] rounded-xl transition-all p-2 flex flex-wrap gap-2 items-start ${draggedTag ? 'bg-blue-50/80 border-2 border-dashed border-blue-300' : 'bg-slate-50/50'}`}>
                             {selectedIds.length === 0 ? (
                                 <div className="w-full h-full flex items-center justify-center text-slate-400 text-xs italic">尚未對應任何來源</div>
@@ -308,19 +886,35 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
                                     const { name } = parseHeaderId(hId);
                                     const priority = getSheetPriorityById(hId);
                                     const isTop = hIdx === 0;
+                                    const proposal = getProposalForTag(field.key, hId);
+                                    const transform = sourceTransforms[hId];
                                     return (
                                         <div key={hId} draggable onDragStart={e => onDragStartTag(e, hId, field.key)} className={`inline-flex items-center gap-2 px-3 py-2 text-xs font-bold rounded-lg shadow-sm cursor-grab active:cursor-grabbing transition-all animate-in zoom-in-95 group/tag ${isTop ? 'bg-blue-600 text-white ring-2 ring-blue-200 shadow-blue-200' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'} ${draggedTag?.headerId === hId ? 'opacity-30' : ''}`}>
                                             {isTop ? <Star size={12} fill="currentColor" /> : <MousePointer2 size={12} />}
                                             <span className="max-w-[120px] truncate">{name}</span>
+                                            {proposal && (
+                                                <span className={`text-[9px] px-1.5 rounded-full ${proposal.confidence >= 0.9 ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`} title="自動偵測的信心度，尚未確認">
+                                                    {Math.round(proposal.confidence * 100)}%
+                                                </span>
+                                            )}
                                             {priority !== -1 && (
                                                 <span className={`text-[9px] px-1.5 rounded-full border ${isTop ? 'border-white/30 bg-white/10' : 'border-slate-300 bg-slate-100'}`}>F{priority + 1}</span>
                                             )}
+                                            <button
+                                                onClick={() => setEditingTransformId(hId)}
+                                                className={`flex items-center gap-1 hover:opacity-70 ${transform ? (isTop ? 'text-[9px] px-1.5 rounded-full bg-white/20' : 'text-[9px] px-1.5 rounded-full bg-indigo-100 text-indigo-700') : ''}`}
+                                                title={transform ? `轉換：${describeSourceTransform(transform)}` : '設定此來源的值轉換'}
+                                            >
+                                                <WandSparkles size={12} />
+                                                {transform && <span className="max-w-[90px] truncate">{describeSourceTransform(transform)}</span>}
+                                            </button>
                                             <button onClick={() => setMapping(prev => ({ ...prev, [field.key]: prev[field.key].filter(id => id !== hId) }))} className="hover:opacity-70"><X size={12}/></button>
                                         </div>
                                     );
                                 })
                             )}
                             </div>
+                            )}
                         </div>
                         );
                     })}
@@ -331,17 +925,52 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
                 <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-xl space-y-6">
                     <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><GitMerge size={20} className="text-indigo-600" /> 合併方式設定</h3>
                     <div className="space-y-4">
-                        <div className="grid grid-cols-2 gap-2">
+                        <div className="grid grid-cols-3 gap-2">
                             <button onClick={() => setMergeMethod('join')} className={`flex flex-col items-center gap-2 p-3 rounded-xl border-2 transition-all ${mergeMethod === 'join' ? 'bg-purple-50 border-purple-600 text-purple-900 shadow-md' : 'bg-white border-slate-100 text-slate-500'}`}><GitMerge size={20} /><span className="text-xs font-bold">依 Key 合併</span></button>
                             <button onClick={() => setMergeMethod('vertical')} className={`flex flex-col items-center gap-2 p-3 rounded-xl border-2 transition-all ${mergeMethod === 'vertical' ? 'bg-blue-50 border-blue-600 text-blue-900 shadow-md' : 'bg-white border-slate-100 text-slate-500'}`}><Layers size={20} /><span className="text-xs font-bold">垂直堆疊</span></button>
+                            <button onClick={() => setMergeMethod('aggregate')} className={`flex flex-col items-center gap-2 p-3 rounded-xl border-2 transition-all ${mergeMethod === 'aggregate' ? 'bg-emerald-50 border-emerald-600 text-emerald-900 shadow-md' : 'bg-white border-slate-100 text-slate-500'}`}><Sigma size={20} /><span className="text-xs font-bold">彙總統計</span></button>
                         </div>
+                        {mergeMethod === 'aggregate' && (
+                            <div className="space-y-2">
+                                <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1"><Sigma size={14}/> 分組欄位 (Group By)</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {groupByFields.map(k => (
+                                        <span key={k} className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-emerald-100 text-emerald-800 rounded-lg text-xs font-bold">
+                                            {fields.find(f => f.key === k)?.label || k}
+                                            <button onClick={() => setGroupByFields(prev => prev.filter(x => x !== k))} className="hover:opacity-70"><X size={12}/></button>
+                                        </span>
+                                    ))}
+                                </div>
+                                <select value="" onChange={e => e.target.value && setGroupByFields(prev => [...prev, e.target.value])} className="w-full px-4 py-2 text-sm border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-emerald-500 bg-slate-50">
+                                    <option value="">{groupByFields.length === 0 ? '選擇分組欄位...' : '+ 加入分組欄位...'}</option>
+                                    {fields.filter(f => !groupByFields.includes(f.key) && f.formula === undefined).map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                                </select>
+                                <p className="text-[11px] text-slate-500 leading-relaxed">所有檔案的資料會先堆疊，再依分組欄位彙總為一列；其他欄位的計算方式可在左側各欄位設定。</p>
+                            </div>
+                        )}
                         {mergeMethod === 'join' && (
                             <div className="space-y-4">
                                 <div className="space-y-2">
                                     <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1"><Key size={14}/> 合併關鍵字 (Join Key)</label>
-                                    <select value={joinKey} onChange={e => setJoinKey(e.target.value)} className="w-full px-4 py-2 text-sm border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-purple-500 bg-slate-50">
-                                        {fields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                                    <div className="flex flex-wrap gap-2">
+                                        {joinKeys.map((k, kIdx) => (
+                                            <span key={k} className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-purple-100 text-purple-800 rounded-lg text-xs font-bold">
+                                                <span className="text-[9px] opacity-60">{kIdx + 1}</span>
+                                                {fields.find(f => f.key === k)?.label || k}
+                                                {kIdx > 0 && (
+                                                    <button onClick={() => setJoinKeys(prev => { const next = [...prev]; [next[kIdx - 1], next[kIdx]] = [next[kIdx], next[kIdx - 1]]; return next; })} className="hover:opacity-70" title="往前移"><ArrowUp size={12}/></button>
+                                                )}
+                                                <button onClick={() => setJoinKeys(prev => prev.filter(x => x !== k))} className="hover:opacity-70"><X size={12}/></button>
+                                            </span>
+                                        ))}
+                                    </div>
+                                    <select value="" onChange={e => e.target.value && setJoinKeys(prev => [...prev, e.target.value])} className="w-full px-4 py-2 text-sm border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-purple-500 bg-slate-50">
+                                        <option value="">{joinKeys.length === 0 ? '選擇合併鍵欄位...' : '+ 加入組合鍵欄位...'}</option>
+                                        {fields.filter(f => !joinKeys.includes(f.key) && f.formula === undefined).map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
                                     </select>
+                                    {joinKeys.length > 1 && (
+                                        <p className="text-[11px] text-slate-500">組合鍵：所有欄位皆相同的列才會合併</p>
+                                    )}
                                 </div>
                                 <div className="space-y-2">
                                     <label className="text-xs font-bold text-slate-500 uppercase">Join 類型</label>
@@ -349,9 +978,45 @@ export const ColumnMapper: React.FC<ColumnMapperProps> = ({
                                         <option value="outer">外部合併 (保留全部)</option>
                                         <option value="inner">內部合併 (只保留交集)</option>
                                         <option value="left">左側合併 (以首檔為主)</option>
+                                        <option value="right">右側合併 (以末檔為主)</option>
+                                        <option value="left-anti">左側差集 (首檔有、其他檔皆無)</option>
+                                        <option value="full-anti">完全差集 (未出現在所有檔案的 Key)</option>
                                     </select>
+                                    {requiredSheets.length > 0 && (
+                                        <p className="text-[11px] text-purple-700">另需出現在 {requiredSheets.length} 個標記為「必要」的檔案中</p>
+                                    )}
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="flex items-center gap-3 cursor-pointer"><input type="checkbox" checked={removeDuplicates} onChange={e => setRemoveDuplicates(e.target.checked)} className="w-5 h-5 rounded border-slate-300 text-purple-600"/><span className="text-sm font-medium text-slate-700">移除 Key 重複列</span></label>
+                                    {removeDuplicates ? (
+                                        <select value={duplicateStrategy} onChange={e => setDuplicateStrategy(e.target.value as DuplicateStrategy)} className="w-full px-4 py-2 text-sm border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-purple-500 bg-slate-50">
+                                            <option value="first">保留第一筆 (Keep First)</option>
+                                            <option value="last">保留最後一筆 (Keep Last)</option>
+                                            <option value="aggregate">彙總重複列 (數字與金額欄位加總、文字合併、其他保留第一筆)</option>
+                                        </select>
+                                    ) : (
+                                        <p className="text-[11px] text-slate-500 leading-relaxed">保留所有重複列：同一 Key 在各檔的每種組合都會產生一列。</p>
+                                    )}
+                                </div>
+                                <div className="space-y-2 pt-2 border-t border-slate-100">
+                                    <label className="text-xs font-bold text-slate-500 uppercase">Key 比對正規化</label>
+                                    {NORMALIZATION_OPTIONS.map(opt => (
+                                        <label key={opt.key} className="flex items-center gap-2 cursor-pointer">
+                                            <input type="checkbox" checked={keyNormalization[opt.key]} onChange={e => setKeyNormalization(prev => ({ ...prev, [opt.key]: e.target.checked }))} className="w-4 h-4 rounded border-slate-300 text-purple-600"/>
+                                            <span className="text-xs text-slate-700">{opt.label}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="space-y-2 pt-2 border-t border-slate-100">
+                                    <label className="flex items-center gap-3 cursor-pointer"><input type="checkbox" checked={fuzzyEnabled} onChange={e => setFuzzyEnabled(e.target.checked)} className="w-5 h-5 rounded border-slate-300 text-purple-600"/><span className="text-sm font-medium text-slate-700">模糊比對 (合併前確認)</span></label>
+                                    {fuzzyEnabled && (
+                                        <div className="flex items-center gap-3">
+                                            <span className="text-xs text-slate-500 shrink-0">相似度門檻</span>
+                                            <input type="range" min={50} max={99} value={Math.round(fuzzyThreshold * 100)} onChange={e => setFuzzyThreshold(parseInt(e.target.value) / 100)} className="flex-1 accent-purple-600" />
+                                            <span className="text-xs font-bold text-purple-700 w-10 text-right">{Math.round(fuzzyThreshold * 100)}%</span>
+                                        </div>
+                                    )}
                                 </div>
-                                <label className="flex items-center gap-3 cursor-pointer"><input type="checkbox" checked={removeDuplicates} onChange={e => setRemoveDuplicates(e.target.checked)} className="w-5 h-5 rounded border-slate-300 text-purple-600"/><span className="text-sm font-medium text-slate-700">移除 Key 重複列</span></label>
                             </div>
                         )}
                     </div>
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { X, ScanSearch, ArrowRight } from 'lucide-react';
+import { ColumnMatchSuggestion } from '../types';
+
+interface ColumnMatchDialogProps {
+  suggestions: ColumnMatchSuggestion[];
+  fieldLabels: Record<string, string>;
+  onConfirm: (accepted: ColumnMatchSuggestion[]) => void;
+  onCancel: () => void;
+}
+
+// "file.xlsx::Sheet1::EmpID" -> header and "file.xlsx / Sheet1"
+const splitHeaderId = (id: string) => {
+  const parts = id.split('::');
+  return { header: parts.slice(2).join('::'), sheet: `${parts[0]} / ${parts[1]}` };
+};
+
+export const ColumnMatchDialog: React.FC<ColumnMatchDialogProps> = ({ suggestions, fieldLabels, onConfirm, onCancel }) => {
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(suggestions.map((_, idx) => idx)));
+
+  const toggle = (idx: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      next.has(idx) ? next.delete(idx) : next.add(idx);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onCancel}></div>
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 relative z-[2001] animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]">
+        <button onClick={onCancel} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+        <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <ScanSearch size={20} className="text-indigo-600" /> 依內容建議的欄位對應
+        </h3>
+        <p className="text-slate-500 mb-4 text-sm">
+          依欄位內容 (共同值、格式、數值範圍) 比對不同檔案的欄位。勾選的欄位將移到建議的目標欄位。
+        </p>
+
+        <div className="flex justify-between items-center mb-2 text-xs">
+          <span className="text-slate-500">已選 {accepted.size} / {suggestions.length} 項</span>
+          <button
+            onClick={() => setAccepted(prev => prev.size === suggestions.length ? new Set() : new Set(suggestions.map((_, idx) => idx)))}
+            className="text-indigo-600 font-medium hover:underline"
+          >
+            {accepted.size === suggestions.length ? '取消全選' : '全選'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {suggestions.map((s, idx) => {
+            const source = splitHeaderId(s.headerId);
+            const matched = splitHeaderId(s.matchedHeaderId);
+            return (
+              <label key={`${s.headerId}->${s.toFieldKey}`} className="flex items-start gap-3 p-3 hover:bg-slate-50 cursor-pointer">
+                <input type="checkbox" checked={accepted.has(idx)} onChange={() => toggle(idx)} className="mt-1 w-4 h-4 rounded border-slate-300 text-indigo-600" />
+                <div className="flex-1 min-w-0 space-y-1.5">
+                  <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-bold text-slate-800 truncate">{source.header}</div>
+                      <div className="text-[10px] text-slate-400 truncate" title={source.sheet}>
+                        {source.sheet} · {s.fromFieldKey ? `目前：${fieldLabels[s.fromFieldKey] || s.fromFieldKey}` : '未對應'}
+                      </div>
+                    </div>
+                    <ArrowRight size={14} className="text-slate-400" />
+                    <div className="min-w-0">
+                      <div className="text-sm font-bold text-indigo-700 truncate">{fieldLabels[s.toFieldKey] || s.toFieldKey}</div>
+                      <div className="text-[10px] text-slate-400 truncate" title={`${matched.header} (${matched.sheet})`}>
+                        相似於 {matched.header} ({matched.sheet})
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {s.reasons.map(reason => (
+                      <span key={reason} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 font-mono">{reason}</span>
+                    ))}
+                  </div>
+                </div>
+                <span className={`shrink-0 text-xs font-bold px-2 py-0.5 rounded-full ${s.score >= 0.85 ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                  {Math.round(s.score * 100)}%
+                </span>
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <button onClick={onCancel} className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(suggestions.filter((_, idx) => accepted.has(idx)))}
+            className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 shadow-sm transition-colors"
+          >
+            套用建議
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
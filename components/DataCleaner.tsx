@@ -1,7 +1,12 @@
 import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
-import { Upload, FileSpreadsheet, Download, RefreshCw, CheckCircle, AlertCircle, Trash2, X, FileArchive, ArrowRightLeft, Undo2, Redo2, Scissors, CaseSensitive, ArrowRightFromLine, Calendar, Hash, PaintBucket, Eraser, ChevronUp, ChevronDown, MousePointerClick, Type, Calculator, TableProperties, Play, ArrowLeft, Plus, Minus, Home, AlertTriangle } from 'lucide-react';
-import { SheetData } from '../types';
-import { readExcelFiles, exportWorkbook, exportMultipleFilesAsZip } from '../utils/excelUtils';
+import { Upload, FileSpreadsheet, Download, RefreshCw, CheckCircle, AlertCircle, Trash2, X, FileArchive, ArrowRightLeft, Undo2, Redo2, Scissors, CaseSensitive, ArrowRightFromLine, Calendar, Hash, PaintBucket, Eraser, ChevronUp, ChevronDown, MousePointerClick, Type, Calculator, TableProperties, Play, ArrowLeft, Plus, Minus, Home, AlertTriangle, EyeOff } from 'lucide-react';
+import { SheetData, ExportOptions, OutputProtection, PasswordManifestEntry, MaskingOperation } from '../types';
+import { readExcelFiles, exportWorkbook, exportMultipleFilesAsZip, DEFAULT_EXPORT_OPTIONS } from '../utils/excelUtils';
+import { DEFAULT_OUTPUT_PROTECTION, prepareExportProtection } from '../utils/outputProtection';
+import { MASKING_OPTIONS, DEFAULT_BUCKET_SIZE, maskValue } from '../utils/masking';
+import { ExportOptionsPanel } from './ExportOptionsPanel';
+import { OutputProtectionPanel } from './OutputProtectionPanel';
+import { PasswordManifestModal } from './PasswordManifestModal';
 import { ToastType } from './Toast';
 
 const INDEX_WIDTH = 60;
@@ -32,6 +37,9 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportSelectedSheets, setExportSelectedSheets] = useState<Set<string>>(new Set());
   const [exportMode, setExportMode] = useState<'single' | 'multiple'>('single');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [protection, setProtection] = useState<OutputProtection>(DEFAULT_OUTPUT_PROTECTION);
+  const [passwordManifest, setPasswordManifest] = useState<{ entries: PasswordManifestEntry[]; baseFileName: string } | null>(null);
   const [showCleaningTools, setShowCleaningTools] = useState(false);
 
   // --- Column Selection State ---
@@ -51,6 +59,9 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
   const [selectedTextOp, setSelectedTextOp] = useState<TextOperation>('trim');
   const [selectedFormatOp, setSelectedFormatOp] = useState<FormatOperation>('toNumber');
   const [selectedRowOp, setSelectedRowOp] = useState<RowOperation>('fillEmpty');
+  const [selectedMaskOp, setSelectedMaskOp] = useState<MaskingOperation>('keepLast4');
+  const [maskSalt, setMaskSalt] = useState('');
+  const [bucketSize, setBucketSize] = useState<number>(DEFAULT_BUCKET_SIZE);
 
   // --- Tool Inputs ---
   const [findText, setFindText] = useState('');
@@ -422,6 +433,31 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
       }
   };
 
+  // Masking is irreversible, so unlike the other operations it never defaults to every column
+  const executeMaskingOp = () => {
+      if (!activeSheet) return;
+      if (selectedCols.size === 0) return onNotify('請先勾選要遮罩的欄位', 'error');
+
+      if (selectedMaskOp === 'drop') {
+          // Values are removed from the rows too, not just hidden behind the header list
+          const newSheets = sheets.map(sheet => {
+              if (sheet.sheetName !== activeSheetName) return sheet;
+              const rows = sheet.rows.map(row => {
+                  const newRow = { ...row };
+                  selectedCols.forEach(h => { delete newRow[h]; });
+                  return newRow;
+              });
+              return { ...sheet, headers: sheet.headers.filter(h => !selectedCols.has(h)), rows };
+          });
+          pushToHistory(newSheets);
+          setSelectedCols(new Set());
+          onNotify(`已移除 ${selectedCols.size} 個欄位`, 'success');
+          return;
+      }
+      if (selectedMaskOp === 'bucket' && !(bucketSize > 0)) return onNotify('級距必須大於 0', 'error');
+      const rule = { id: 'manual', field: '', operation: selectedMaskOp, salt: maskSalt, bucketSize };
+      applyCleaning(MASKING_OPTIONS.find(o => o.value === selectedMaskOp)?.label || '遮罩', val => maskValue(val, rule));
+  };
 
   // --- Resize Handlers ---
   const startResize = (e: React.MouseEvent, type: 'col' | 'row', id: string, currentSize: number) => {
@@ -465,19 +501,28 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
 
   const executeExport = async () => {
     if (!file) return;
-    const sheetsToExport = sheets.filter(s => exportSelectedSheets.has(s.sheetName));
+    const sheetsToExport = sheets
+      .filter(s => exportSelectedSheets.has(s.sheetName))
+      .map(s => ({ ...s, columnWidths: colWidths }));
     if (sheetsToExport.length === 0) {
       onNotify("請至少選擇一個工作表", 'error');
       return;
     }
     const cleanName = `Cleaned_${file.name.replace('.xlsx', '').replace('.xls', '')}`;
-    if (exportMode === 'single') {
-      exportWorkbook(sheetsToExport, cleanName);
-    } else {
-      await exportMultipleFilesAsZip(sheetsToExport, cleanName);
+    const { exportProtection, error } = prepareExportProtection(sheetsToExport.map(s => s.sheetName), protection, exportOptions.format, exportMode === 'single' ? 'workbook' : 'files');
+    if (error) return onNotify(error, 'error');
+
+    try {
+      const manifest = exportMode === 'single'
+        ? await exportWorkbook(sheetsToExport, cleanName, exportOptions, exportProtection)
+        : await exportMultipleFilesAsZip(sheetsToExport, cleanName, exportOptions, exportProtection);
+      if (manifest.length > 0) setPasswordManifest({ entries: manifest, baseFileName: cleanName });
+      onNotify("匯出成功！", 'success');
+      setShowExportModal(false);
+    } catch (e) {
+      console.error(e);
+      onNotify("匯出時發生錯誤", 'error');
     }
-    onNotify("匯出成功！", 'success');
-    setShowExportModal(false);
   };
   
   const toggleSelectAllSheets = () => {
@@ -590,7 +635,7 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
               </div>
            </div>
 
-           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
               
               {/* Group 1: Text Operations */}
               <div className="flex flex-col gap-2">
@@ -705,6 +750,37 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
                  </div>
               </div>
 
+              {/* Group 4: Masking Operations */}
+              <div className="flex flex-col gap-2">
+                 <div className="flex items-center gap-2 text-indigo-800 text-sm font-bold">
+                    <EyeOff size={16}/> 遮罩與去識別 (Masking)
+                 </div>
+                 <div className="bg-white p-2 rounded-lg border border-slate-200 shadow-sm flex flex-col gap-2">
+                    <select 
+                      value={selectedMaskOp} 
+                      onChange={(e) => setSelectedMaskOp(e.target.value as MaskingOperation)}
+                      className="w-full text-sm border-slate-300 rounded-md py-1.5 focus:ring-indigo-500 border"
+                    >
+                        {MASKING_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+
+                    {selectedMaskOp === 'hash' && (
+                        <input type="text" placeholder="鹽值 (Salt)..." value={maskSalt} onChange={e => setMaskSalt(e.target.value)} className="w-full text-sm border p-1 rounded" />
+                    )}
+
+                    {selectedMaskOp === 'bucket' && (
+                        <div className="flex items-center gap-2">
+                             <span className="text-xs text-slate-500">級距:</span>
+                             <input type="number" min="1" value={bucketSize} onChange={e => setBucketSize(parseFloat(e.target.value) || 0)} className="w-full text-sm border p-1 rounded" />
+                        </div>
+                    )}
+
+                    <button onClick={executeMaskingOp} className="w-full py-1 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 text-xs font-bold rounded border border-indigo-200 flex items-center justify-center gap-1">
+                       <Play size={12}/> 執行
+                    </button>
+                 </div>
+              </div>
+
            </div>
         </div>
       )}
@@ -806,11 +882,15 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
           )}
        </div>
 
+      {passwordManifest && (
+        <PasswordManifestModal entries={passwordManifest.entries} baseFileName={passwordManifest.baseFileName} onClose={() => setPasswordManifest(null)} />
+      )}
+
       {/* Export Options Modal */}
       {showExportModal && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity" onClick={() => setShowExportModal(false)} />
-          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 relative z-[101] animate-in zoom-in-95 duration-200 border border-slate-200">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 relative z-[101] animate-in zoom-in-95 duration-200 border border-slate-200 max-h-[90vh] overflow-y-auto custom-scrollbar">
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                 <Download className="text-indigo-600" />
@@ -823,12 +903,12 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
 
             {/* Mode Selection */}
             <div className="mb-6">
-              <label className="block text-sm font-bold text-slate-700 mb-3">1. 選擇匯出格式</label>
+              <label className="block text-sm font-bold text-slate-700 mb-3">1. 選擇匯出方式</label>
               <div className="grid grid-cols-2 gap-4">
                 <label className={`cursor-pointer border-2 rounded-lg p-3 flex flex-col items-center gap-2 transition-all ${exportMode === 'single' ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-200 hover:border-slate-300'}`}>
                   <input type="radio" name="exportMode" value="single" checked={exportMode === 'single'} onChange={() => setExportMode('single')} className="hidden" />
                   <FileSpreadsheet size={24} />
-                  <span className="text-sm font-bold">單一 Excel 檔</span>
+                  <span className="text-sm font-bold">單一檔案</span>
                   <span className="text-xs text-center opacity-75">所有工作表在同一檔案中</span>
                 </label>
                 <label className={`cursor-pointer border-2 rounded-lg p-3 flex flex-col items-center gap-2 transition-all ${exportMode === 'multiple' ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-200 hover:border-slate-300'}`}>
@@ -840,10 +920,16 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
               </div>
             </div>
 
+            {/* File Format */}
+            <div className="mb-6">
+              <label className="block text-sm font-bold text-slate-700 mb-3">2. 檔案類型</label>
+              <ExportOptionsPanel options={exportOptions} onChange={setExportOptions} />
+            </div>
+
             {/* Sheet Selection */}
             <div className="mb-6">
               <div className="flex justify-between items-end mb-3">
-                <label className="block text-sm font-bold text-slate-700">2. 選擇要匯出的工作表</label>
+                <label className="block text-sm font-bold text-slate-700">3. 選擇要匯出的工作表</label>
                 <button onClick={toggleSelectAllSheets} className="text-xs text-indigo-600 font-medium hover:underline">
                   {exportSelectedSheets.size === sheets.length ? '取消全選' : '全選所有'}
                 </button>
@@ -868,6 +954,11 @@ export const DataCleaner: React.FC<DataCleanerProps> = ({ onBack, onNotify }) =>
               </div>
             </div>
 
+            <div className="mb-6">
+              <label className="block text-sm font-bold text-slate-700 mb-3">4. 檔案保護</label>
+              <OutputProtectionPanel protection={protection} format={exportOptions.format} target={exportMode === 'single' ? 'workbook' : 'files'} onChange={setProtection} onNotify={onNotify} />
+            </div>
+
             <div className="flex gap-3 pt-2">
               <button onClick={() => setShowExportModal(false)} className="flex-1 px-4 py-2.5 border border-slate-300 rounded-lg text-slate-700 font-medium hover:bg-slate-50 transition-colors">
                 取消
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { X, FileText } from 'lucide-react';
+import { SheetData, TextEncoding } from '../types';
+import {
+  ENCODING_OPTIONS, DELIMITER_OPTIONS, detectEncoding, detectDelimiter, decodeText, parseDelimitedText, buildDelimitedSheet
+} from '../utils/delimitedText';
+
+interface DelimitedImportDialogProps {
+  fileName: string;
+  bytes: Uint8Array;
+  remaining: number; // Files still waiting after this one
+  onConfirm: (sheet: SheetData) => void;
+  onSkip: () => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+export const DelimitedImportDialog: React.FC<DelimitedImportDialogProps> = ({ fileName, bytes, remaining, onConfirm, onSkip, onCancel }) => {
+  const detected = useMemo(() => {
+    const { encoding, hasBom } = detectEncoding(bytes);
+    return { encoding, hasBom, delimiter: detectDelimiter(decodeText(bytes, encoding)) };
+  }, [bytes]);
+
+  const [encoding, setEncoding] = useState<TextEncoding>(detected.encoding);
+  const [delimiter, setDelimiter] = useState<string>(detected.delimiter);
+
+  const text = useMemo(() => decodeText(bytes, encoding), [bytes, encoding]);
+  const preview = useMemo(() => parseDelimitedText(text, delimiter, PREVIEW_ROWS), [text, delimiter]);
+  const columnCount = Math.max(0, ...preview.map(r => r.length));
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onCancel}></div>
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full p-6 relative z-[2001] animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <button onClick={onCancel} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+        <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <FileText size={20} className="text-blue-600" /> 確認文字檔匯入設定
+        </h3>
+        <p className="text-slate-500 mb-4 text-sm truncate" title={fileName}>
+          {fileName}{remaining > 0 && <span className="ml-2 text-slate-400">(尚有 {remaining} 個檔案)</span>}
+        </p>
+
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <label className="flex flex-col gap-1 text-xs font-bold text-slate-500">
+            文字編碼
+            <select value={encoding} onChange={e => setEncoding(e.target.value as TextEncoding)} className="px-3 py-2 text-sm font-normal text-slate-700 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 bg-slate-50">
+              {ENCODING_OPTIONS.map(opt => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}{opt.value === detected.encoding ? (detected.hasBom ? ' - 偵測到 BOM' : ' - 自動偵測') : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-bold text-slate-500">
+            分隔符號
+            <select value={delimiter} onChange={e => setDelimiter(e.target.value)} className="px-3 py-2 text-sm font-normal text-slate-700 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-500 bg-slate-50">
+              {DELIMITER_OPTIONS.map(opt => (
+                <option key={opt.label} value={opt.value}>
+                  {opt.label}{opt.value === detected.delimiter ? ' - 自動偵測' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="text-xs text-slate-500 mb-1">預覽前 {PREVIEW_ROWS} 列 · {columnCount} 欄</div>
+        <div className="flex-1 overflow-auto custom-scrollbar border border-slate-200 rounded-lg">
+          <table className="text-xs text-left border-collapse">
+            <tbody className="divide-y divide-slate-100">
+              {preview.map((row, rIdx) => (
+                <tr key={rIdx} className={rIdx === 0 ? 'bg-slate-50 font-bold text-slate-700' : 'text-slate-600'}>
+                  {Array.from({ length: columnCount }, (_, cIdx) => (
+                    <td key={cIdx} className="px-2 py-1.5 border-r border-slate-100 whitespace-nowrap max-w-[200px] truncate">{row[cIdx] ?? ''}</td>
+                  ))}
+                </tr>
+              ))}
+              {preview.length === 0 && (
+                <tr><td className="text-center py-8 text-slate-400">檔案沒有內容</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <button onClick={onSkip} className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+            略過此檔案
+          </button>
+          <button
+            onClick={() => onConfirm(buildDelimitedSheet(fileName, text, delimiter))}
+            disabled={preview.length === 0}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 shadow-sm transition-colors disabled:bg-slate-300"
+          >
+            確認匯入
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { ExportEncoding, ExportFormat, ExportOptions } from '../types';
+
+interface ExportOptionsPanelProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+}
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'ods', label: 'OpenDocument (.ods)' },
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'tsv', label: 'TSV (.tsv)' },
+  { value: 'json', label: 'JSON (.json)' },
+  { value: 'html', label: '可列印 HTML (.html)' },
+];
+
+const LAYOUT_OPTIONS: { key: 'boldHeader' | 'freezeHeader' | 'autoFilter' | 'columnWidths'; label: string; xlsxOnly?: boolean }[] = [
+  { key: 'boldHeader', label: '標題列粗體', xlsxOnly: true },
+  { key: 'freezeHeader', label: '凍結標題列', xlsxOnly: true },
+  { key: 'autoFilter', label: '自動篩選' },
+  { key: 'columnWidths', label: '套用欄寬 (畫面寬度或依內容)' },
+];
+
+const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: '逗號 (,)' },
+  { value: ';', label: '分號 (;)' },
+  { value: '|', label: '直線 (|)' },
+];
+
+export const ExportOptionsPanel: React.FC<ExportOptionsPanelProps> = ({ options, onChange }) => {
+  const update = (patch: Partial<ExportOptions>) => onChange({ ...options, ...patch });
+  const isText = options.format === 'csv' || options.format === 'tsv';
+  const isSpreadsheet = options.format === 'xlsx' || options.format === 'ods';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <select
+        value={options.format}
+        onChange={e => update({ format: e.target.value as ExportFormat })}
+        className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+      >
+        {EXPORT_FORMAT_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+      </select>
+
+      {options.format === 'csv' && (
+        <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+          分隔符號
+          <select value={options.delimiter} onChange={e => update({ delimiter: e.target.value })} className="px-2 py-1 border border-slate-300 rounded bg-white outline-none">
+            {CSV_DELIMITERS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+          </select>
+        </label>
+      )}
+
+      {isText && (
+        <>
+          <label className="flex items-center justify-between gap-3 text-xs text-slate-600">
+            文字編碼
+            <select value={options.encoding} onChange={e => update({ encoding: e.target.value as ExportEncoding })} className="px-2 py-1 border border-slate-300 rounded bg-white outline-none">
+              <option value="utf-8">UTF-8</option>
+              <option value="utf-16le">UTF-16 LE</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={options.includeBom} onChange={e => update({ includeBom: e.target.checked })} className="w-4 h-4 rounded border-slate-300 text-indigo-600" />
+            加入 BOM (Excel 開啟不亂碼)
+          </label>
+        </>
+      )}
+
+      {options.format === 'json' && (
+        <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={options.prettyJson} onChange={e => update({ prettyJson: e.target.checked })} className="w-4 h-4 rounded border-slate-300 text-indigo-600" />
+          格式化輸出 (縮排)
+        </label>
+      )}
+
+      {isSpreadsheet && LAYOUT_OPTIONS.filter(opt => options.format === 'xlsx' || !opt.xlsxOnly).map(opt => (
+        <label key={opt.key} className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={options[opt.key]} onChange={e => update({ [opt.key]: e.target.checked })} className="w-4 h-4 rounded border-slate-300 text-indigo-600" />
+          {opt.label}
+        </label>
+      ))}
+
+      {options.format !== 'json' && (
+        <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={options.totalsRow} onChange={e => update({ totalsRow: e.target.checked })} className="w-4 h-4 rounded border-slate-300 text-indigo-600" />
+          加入合計列 (數值欄位加總)
+        </label>
+      )}
+
+      {isText && (
+        <p className="text-[11px] text-slate-400">CSV/TSV 每個檔案只能有一個工作表，多工作表匯出會改為 ZIP。</p>
+      )}
+    </div>
+  );
+};
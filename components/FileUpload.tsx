@@ -1,5 +1,6 @@
 import React, { useCallback } from 'react';
 import { Upload, FileSpreadsheet, PlayCircle } from 'lucide-react';
+import { isSupportedFile, SUPPORTED_EXTENSIONS } from '../utils/fileImport';
 
 interface FileUploadProps {
   onFilesSelected: (files: File[]) => void;
@@ -11,9 +12,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, onLoadS
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     if (isLoading) return;
-    const files = Array.from(e.dataTransfer.files).filter((f: File) => 
-      f.name.endsWith('.xlsx') || f.name.endsWith('.xls') || f.name.endsWith('.csv')
-    );
+    const files = Array.from(e.dataTransfer.files).filter((f: File) => isSupportedFile(f.name));
     if (files.length > 0) onFilesSelected(files);
   }, [isLoading, onFilesSelected]);
 
@@ -39,14 +38,14 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, onLoadS
           拖放 Excel 檔案至此
         </h3>
         <p className="text-slate-500 mb-6 text-center max-w-md">
-          支援多個 .xlsx, .xls 檔案。我們會自動掃描所有工作表(Sheets)。
+          支援多個 .xlsx, .xls, .ods 檔案，以及 .csv, .tsv, .json, .ndjson 資料檔。我們會自動掃描所有工作表(Sheets)。
         </p>
         
         <label className="relative mb-4">
           <input 
             type="file" 
             multiple 
-            accept=".xlsx,.xls,.csv" 
+            accept={SUPPORTED_EXTENSIONS.join(',')}
             onChange={handleFileInput}
             disabled={isLoading}
             className="hidden"
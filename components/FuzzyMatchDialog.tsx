@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { X, Sparkles, ArrowRight } from 'lucide-react';
+import { FuzzyKeyMatch } from '../types';
+import { formatCompositeKey } from '../utils/excelUtils';
+
+interface FuzzyMatchDialogProps {
+  matches: FuzzyKeyMatch[];
+  onConfirm: (accepted: FuzzyKeyMatch[]) => void;
+  onCancel: () => void;
+}
+
+export const FuzzyMatchDialog: React.FC<FuzzyMatchDialogProps> = ({ matches, onConfirm, onCancel }) => {
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(matches.map((_, idx) => idx)));
+
+  const toggle = (idx: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      next.has(idx) ? next.delete(idx) : next.add(idx);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onCancel}></div>
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 relative z-[2001] animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]">
+        <button onClick={onCancel} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+        <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <Sparkles size={20} className="text-purple-600" /> 確認模糊比對結果
+        </h3>
+        <p className="text-slate-500 mb-4 text-sm">
+          以下 Key 無法完全比對，但內容相似。勾選的配對將視為同一筆資料合併。
+        </p>
+
+        <div className="flex justify-between items-center mb-2 text-xs">
+          <span className="text-slate-500">已選 {accepted.size} / {matches.length} 組</span>
+          <button
+            onClick={() => setAccepted(prev => prev.size === matches.length ? new Set() : new Set(matches.map((_, idx) => idx)))}
+            className="text-purple-600 font-medium hover:underline"
+          >
+            {accepted.size === matches.length ? '取消全選' : '全選'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {matches.map((m, idx) => (
+            <label key={`${m.key}->${m.matchKey}`} className="flex items-center gap-3 p-3 hover:bg-slate-50 cursor-pointer">
+              <input type="checkbox" checked={accepted.has(idx)} onChange={() => toggle(idx)} className="w-4 h-4 rounded border-slate-300 text-purple-600" />
+              <div className="flex-1 min-w-0 grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+                <div className="min-w-0">
+                  <div className="font-mono text-sm font-bold text-slate-800 truncate">{formatCompositeKey(m.key)}</div>
+                  <div className="text-[10px] text-slate-400 truncate" title={m.keySheets.join(', ')}>{m.keySheets.join(', ')}</div>
+                </div>
+                <ArrowRight size={14} className="text-slate-400" />
+                <div className="min-w-0">
+                  <div className="font-mono text-sm font-bold text-slate-800 truncate">{formatCompositeKey(m.matchKey)}</div>
+                  <div className="text-[10px] text-slate-400 truncate" title={m.matchSheets.join(', ')}>{m.matchSheets.join(', ')}</div>
+                </div>
+              </div>
+              <span className={`shrink-0 text-xs font-bold px-2 py-0.5 rounded-full ${m.similarity >= 0.9 ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                {Math.round(m.similarity * 100)}%
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <button onClick={onCancel} className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+            返回修改
+          </button>
+          <button
+            onClick={() => onConfirm(matches.filter((_, idx) => accepted.has(idx)))}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 shadow-sm transition-colors"
+          >
+            套用並合併
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
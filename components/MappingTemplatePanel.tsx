@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { Save, Download, Upload, Trash2, Play } from 'lucide-react';
+import { MappingTemplate } from '../types';
+import { loadMappingTemplates, saveMappingTemplates, downloadMappingTemplate, parseMappingTemplateFile } from '../utils/mappingTemplates';
+import { ToastType } from './Toast';
+
+interface MappingTemplatePanelProps {
+  buildTemplate: (name: string) => MappingTemplate;
+  onApply: (template: MappingTemplate) => void;
+  onNotify: (msg: string, type: ToastType) => void;
+}
+
+export const MappingTemplatePanel: React.FC<MappingTemplatePanelProps> = ({ buildTemplate, onApply, onNotify }) => {
+  const [templates, setTemplates] = useState<MappingTemplate[]>(loadMappingTemplates);
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const persist = (next: MappingTemplate[]) => {
+    try {
+      saveMappingTemplates(next);
+      setTemplates(next);
+      return true;
+    } catch (e) {
+      console.error(e);
+      onNotify('無法儲存範本 (瀏覽器儲存空間不足或已停用)', 'error');
+      return false;
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return onNotify('請輸入範本名稱', 'error');
+    // Saving under an existing name replaces that template
+    const template = buildTemplate(trimmed);
+    if (persist([...templates.filter(t => t.name !== trimmed), template])) {
+      setName('');
+      onNotify(`已儲存範本「${trimmed}」`, 'success');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const template = parseMappingTemplateFile(await file.text());
+      if (persist([...templates.filter(t => t.name !== template.name), template])) {
+        onNotify(`已匯入範本「${template.name}」`, 'success');
+      }
+    } catch (err) {
+      onNotify(err instanceof Error ? err.message : '匯入範本失敗', 'error');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          placeholder="範本名稱，例如：每月區域薪資"
+          className="flex-1 px-3 py-1.5 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button onClick={handleSave} className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 text-white rounded-lg text-sm font-bold hover:bg-slate-700" title="儲存目前的欄位、對應與合併設定">
+          <Save size={14} /> 儲存
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1 max-h-60 overflow-y-auto custom-scrollbar">
+        {templates.length === 0 && <div className="text-xs text-slate-400 italic py-1">尚未儲存任何範本</div>}
+        {templates.map(t => (
+          <div key={t.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-slate-700 truncate">{t.name}</div>
+              <div className="text-[11px] text-slate-400">{t.fields.length} 個欄位 · {new Date(t.savedAt).toLocaleDateString()}</div>
+            </div>
+            <button onClick={() => onApply(t)} className="flex items-center gap-1 px-2 py-1 text-xs font-bold text-blue-700 bg-blue-50 rounded hover:bg-blue-100" title="套用範本">
+              <Play size={12} /> 套用
+            </button>
+            <button onClick={() => downloadMappingTemplate(t)} className="text-slate-400 hover:text-slate-700" title="下載為 JSON">
+              <Download size={14} />
+            </button>
+            <button onClick={() => persist(templates.filter(x => x.id !== t.id))} className="text-slate-300 hover:text-red-500" title="刪除範本">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button onClick={() => fileInputRef.current?.click()} className="flex items-center justify-center gap-2 px-3 py-1.5 text-xs border border-dashed border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50">
+        <Upload size={14} /> 匯入範本 (.json)
+      </button>
+      <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+    </div>
+  );
+};
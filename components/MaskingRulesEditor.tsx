@@ -0,0 +1,69 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { FieldDefinition, MaskingOperation, MaskingRule } from '../types';
+import { MASKING_OPTIONS, createMaskingRule } from '../utils/masking';
+
+interface MaskingRulesEditorProps {
+  rules: MaskingRule[];
+  fields: FieldDefinition[];
+  onChange: (rules: MaskingRule[]) => void;
+}
+
+export const MaskingRulesEditor: React.FC<MaskingRulesEditorProps> = ({ rules, fields, onChange }) => {
+  const updateRule = (id: string, patch: Partial<MaskingRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {rules.map(rule => (
+        <div key={rule.id} className="flex items-center gap-2 flex-wrap">
+          <select
+            value={rule.field}
+            onChange={e => updateRule(rule.id, { field: e.target.value })}
+            className="px-2 py-1 text-sm border border-slate-300 rounded bg-white outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {fields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+          </select>
+          <select
+            value={rule.operation}
+            onChange={e => updateRule(rule.id, { operation: e.target.value as MaskingOperation })}
+            className="px-2 py-1 text-sm border border-slate-300 rounded bg-white outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {MASKING_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+          </select>
+          {rule.operation === 'hash' && (
+            <input
+              type="text"
+              value={rule.salt || ''}
+              onChange={e => updateRule(rule.id, { salt: e.target.value })}
+              placeholder="鹽值 (Salt)"
+              className="w-32 px-2 py-1 text-sm border border-slate-300 rounded outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          )}
+          {rule.operation === 'bucket' && (
+            <label className="flex items-center gap-1 text-xs text-slate-500">
+              級距
+              <input
+                type="number"
+                min="1"
+                value={rule.bucketSize ?? ''}
+                onChange={e => updateRule(rule.id, { bucketSize: parseFloat(e.target.value) || undefined })}
+                className="w-24 px-2 py-1 text-sm border border-slate-300 rounded outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </label>
+          )}
+          <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-slate-300 hover:text-red-500" title="刪除遮罩規則">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...rules, createMaskingRule(fields[0]?.key || '')])}
+        className="self-start flex items-center gap-1 text-xs text-purple-700 hover:text-purple-900 font-medium"
+      >
+        <Plus size={12} /> 新增遮罩欄位
+      </button>
+    </div>
+  );
+};
@@ -3,27 +3,39 @@ import {
   Download, Search, AlertTriangle, Layers, Split, RefreshCw, ArrowLeft, 
   Columns, CheckSquare, Square, Type, Hash, Eraser, Trash, Scissors, 
   CaseSensitive, ArrowRightFromLine, Calendar, PaintBucket, MousePointerClick, 
-  ChevronUp, ChevronDown, RotateCcw, RotateCw, Edit, X, Home, Power, Calculator, TableProperties, Play, Undo2, Redo2, FileDown
+  ChevronUp, ChevronDown, RotateCcw, RotateCw, Edit, X, Home, Power, Calculator, TableProperties, Play, Undo2, Redo2, FileDown, Scale, Settings2, Lock, EyeOff
 } from 'lucide-react';
-import { EmployeeRow, FieldDefinition } from '../types';
-import { exportToExcel } from '../utils/excelUtils';
+import { EmployeeRow, FieldDefinition, SheetData, FilterOperator, FilterGroup, SplitRecipe, DuplicateReport, ReconciliationEntry, ExportOptions, FieldType, OutputProtection, PasswordManifestEntry, MaskingOperation, OutputColumn } from '../types';
+import { exportToExcel, exportWorkbook, exportMultipleFilesAsZip, groupRowsByField, getConflictFlagKey, DEFAULT_EXPORT_OPTIONS } from '../utils/excelUtils';
+import { DEFAULT_OUTPUT_PROTECTION, prepareExportProtection } from '../utils/outputProtection';
+import { MASKING_OPTIONS, DEFAULT_BUCKET_SIZE, maskValue, applyMaskingRules, getDroppedFields } from '../utils/masking';
+import { applyComputedFields, isComputedField } from '../utils/formula';
+import { ColumnType, detectColumnType, matchesCondition, createRowPredicate, createTextSearchPredicate, createGroup, createCondition, countConditions, describeRule, runSplitRecipes, resolveOutputFields } from '../utils/filterEngine';
 import { ToastType } from './Toast';
+import { RuleBuilder } from './RuleBuilder';
+import { SplitRecipePanel } from './SplitRecipePanel';
+import { ReconciliationModal } from './ReconciliationModal';
+import { PasswordManifestModal } from './PasswordManifestModal';
+import { ExportOptionsPanel } from './ExportOptionsPanel';
+import { OutputProtectionPanel } from './OutputProtectionPanel';
+import { OutputColumnsEditor } from './OutputColumnsEditor';
 
 interface MasterTableProps {
   data: EmployeeRow[];
   fields: FieldDefinition[];
+  duplicateReport?: DuplicateReport[];
+  reconciliation?: ReconciliationEntry[];
+  removeDuplicates?: boolean;
   onDataUpdate: (newData: EmployeeRow[]) => void;
   onBack: () => void;
   onReset: () => void;
   onNotify: (msg: string, type: ToastType) => void;
 }
 
-// Expanded operators to support specific string operations
-type FilterOperator = 
-  | 'eq' | 'neq' | 'gt' | 'lt' | 'gte' | 'lte' // Numeric & Basic
-  | 'contains' | 'not_contains' | 'starts_with' | 'ends_with'; // String specific
-
-type ColumnType = 'string' | 'number';
+// 'filter' exports one subset per click, 'rules' exports the subset matching a compound rule,
+// 'distinct' exports one output per distinct value, 'recipes' runs every named split recipe at once
+type SplitMode = 'filter' | 'rules' | 'distinct' | 'recipes';
+type GroupOutput = 'zip' | 'sheets';
 
 // Ported Types from DataCleaner
 type TextOperation = 'trim' | 'removeAllSpaces' | 'upper' | 'lower' | 'titleCase' | 'removeSymbols' | 'findReplace' | 'regexReplace' | 'prepend' | 'append';
@@ -33,7 +45,7 @@ type RowOperation = 'fillEmpty' | 'removeDuplicates' | 'removeEmptyRows';
 
 const INDEX_WIDTH = 60; // Fixed width for the index column
 
-export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUpdate, onBack, onReset, onNotify }) => {
+export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, duplicateReport = [], reconciliation = [], removeDuplicates = true, onDataUpdate, onBack, onReset, onNotify }) => {
   // --- HISTORY & STATE MANAGEMENT ---
   const [history, setHistory] = useState<EmployeeRow[][]>([data]);
   const [historyIndex, setHistoryIndex] = useState(0);
@@ -42,14 +54,17 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
   const currentData = history[historyIndex] || [];
   const totalRows = currentData.length;
 
-  const pushToHistory = useCallback((newData: EmployeeRow[]) => {
+  // Computed fields follow every edit of the fields they read
+  const pushToHistory = useCallback((editedData: EmployeeRow[]) => {
+    const { rows: newData, errors } = applyComputedFields(editedData, fields);
+    if (errors.length > 0) onNotify(`計算欄位無法計算：${errors.join('；')}`, 'error');
     setHistory(prev => {
       const newHistory = prev.slice(0, historyIndex + 1);
       return [...newHistory, newData];
     });
     setHistoryIndex(prev => prev + 1);
     onDataUpdate(newData);
-  }, [historyIndex, onDataUpdate]);
+  }, [historyIndex, onDataUpdate, fields, onNotify]);
 
   const undo = () => {
     if (historyIndex > 0) {
@@ -68,6 +83,14 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
   };
 
   const [filterText, setFilterText] = useState('');
+  const [showDuplicateReport, setShowDuplicateReport] = useState(false);
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+  const [protection, setProtection] = useState<OutputProtection>(DEFAULT_OUTPUT_PROTECTION);
+  const [passwordManifest, setPasswordManifest] = useState<{ entries: PasswordManifestEntry[]; baseFileName: string } | null>(null);
+  const [showProtection, setShowProtection] = useState(false);
+  const duplicateSheets = duplicateReport.filter(d => d.duplicateRows > 0);
 
   // Column Visibility State
   const [hiddenKeys, setHiddenKeys] = useState<Set<string>>(new Set());
@@ -79,6 +102,15 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
   const [splitType, setSplitType] = useState<ColumnType>('string');
   const [splitOperator, setSplitOperator] = useState<FilterOperator>('eq');
   const [splitValue, setSplitValue] = useState<string>('');
+  const [splitMode, setSplitMode] = useState<SplitMode>('filter');
+  const [groupOutput, setGroupOutput] = useState<GroupOutput>('zip');
+  const [splitRule, setSplitRule] = useState<FilterGroup>(() => createGroup('and', [createCondition(fields[0]?.key || '')]));
+  const [applyRuleToTable, setApplyRuleToTable] = useState(false);
+  const [recipes, setRecipes] = useState<SplitRecipe[]>([]);
+  const [includeRemainder, setIncludeRemainder] = useState(true);
+  const [remainderName, setRemainderName] = useState('未分類');
+  const [splitColumns, setSplitColumns] = useState<OutputColumn[]>([]);
+  const [showSplitColumns, setShowSplitColumns] = useState(false);
 
   // --- CLEANING TOOL STATE (Ported from DataCleaner) ---
   const [showCleaningTools, setShowCleaningTools] = useState(false);
@@ -88,6 +120,7 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
   const [selectedTextOp, setSelectedTextOp] = useState<TextOperation>('trim');
   const [selectedFormatOp, setSelectedFormatOp] = useState<FormatOperation>('toNumber');
   const [selectedRowOp, setSelectedRowOp] = useState<RowOperation>('fillEmpty');
+  const [selectedMaskOp, setSelectedMaskOp] = useState<MaskingOperation>('keepLast4');
 
   // Tool Inputs
   const [findText, setFindText] = useState('');
@@ -96,6 +129,8 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
   const [numInput, setNumInput] = useState<number>(0);
   const [padLength, setPadLength] = useState<number>(3);
   const [fillValue, setFillValue] = useState('');
+  const [maskSalt, setMaskSalt] = useState('');
+  const [bucketSize, setBucketSize] = useState<number>(DEFAULT_BUCKET_SIZE);
 
 
   // --- RESIZING STATE ---
@@ -196,21 +231,7 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
   // Detect Column Type
   useEffect(() => {
     if (!splitField || currentData.length === 0) return;
-    const sampleSize = Math.min(currentData.length, 100);
-    let numCount = 0;
-    let validCount = 0;
-
-    for (let i = 0; i < sampleSize; i++) {
-      const val = currentData[i][splitField];
-      if (val !== undefined && val !== null && val !== '') {
-        validCount++;
-        if (!isNaN(parseFloat(String(val))) && isFinite(Number(val))) {
-          numCount++;
-        }
-      }
-    }
-    const isNumber = validCount > 0 && (numCount / validCount) > 0.8;
-    const newType = isNumber ? 'number' : 'string';
+    const newType = detectColumnType(currentData, splitField);
     setSplitType(newType);
     setSplitOperator(prev => {
         if (newType === 'number') {
@@ -222,12 +243,13 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
   }, [splitField, currentData]);
 
   const handleCellChange = (id: string, field: string, value: string) => {
-    const newData = currentData.map(row => {
+    // Formula errors were already reported when the data was merged; not repeated on every keystroke
+    const newData = applyComputedFields(currentData.map(row => {
       if (row.id === id) {
         return { ...row, [field]: value };
       }
       return row;
-    });
+    }), fields).rows;
     
     setHistory(prev => {
        const newHistory = [...prev];
@@ -465,87 +487,188 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
       }
   };
 
+  // Export columns are keyed by label, so their types and widths are too
+  const getExportColumns = (outputFields: FieldDefinition[]) => {
+    const columnTypes: Record<string, FieldType> = {};
+    const columnWidths: Record<string, number> = {};
+    outputFields.forEach(f => {
+      columnTypes[f.label] = f.type;
+      if (colWidths[f.key]) columnWidths[f.label] = colWidths[f.key];
+    });
+    return { columnTypes, columnWidths };
+  };
+
+  // Single and per-group splits share one column list; each recipe carries its own
+  const splitOutputFields = resolveOutputFields(splitColumns, allAvailableFields, visibleFields);
+
+  // Masking is irreversible, so it only ever targets one chosen column
+  const executeMaskingOp = () => {
+    if (!targetCol) return onNotify('請先在「應用範圍」選擇要遮罩的欄位', 'error');
+    const label = allAvailableFields.find(f => f.key === targetCol)?.label || targetCol;
+    if (selectedMaskOp === 'drop') {
+      pushToHistory(currentData.map(row => ({ ...row, [targetCol]: '' })));
+      setHiddenKeys(prev => new Set(prev).add(targetCol));
+      onNotify(`已移除欄位「${label}」`, 'success');
+      return;
+    }
+    if (selectedMaskOp === 'bucket' && !(bucketSize > 0)) return onNotify('級距必須大於 0', 'error');
+    const rule = { id: 'manual', field: targetCol, operation: selectedMaskOp, salt: maskSalt, bucketSize };
+    applyCleaning(MASKING_OPTIONS.find(o => o.value === selectedMaskOp)?.label || '遮罩', val => maskValue(val, rule));
+  };
+
+  // Map data using labels instead of internal keys
+  const toExportRows = (rows: EmployeeRow[], outputFields: FieldDefinition[] = visibleFields) => {
+    return rows.map(row => {
+      const cleanRow: any = {};
+      outputFields.forEach(f => {
+        cleanRow[f.label] = row[f.key];
+      });
+      return cleanRow;
+    });
+  };
+
   // --- DOWNLOAD ALL (No Split) ---
-  const handleExportAll = () => {
+  const handleExportAll = async () => {
      if (currentData.length === 0) return onNotify('沒有資料可以匯出', 'error');
-
-     // Map data using labels instead of internal keys
-     const exportData = currentData.map(row => {
-       const cleanRow: any = {};
-       visibleFields.forEach(f => {
-         cleanRow[f.label] = row[f.key];
-       });
-       return cleanRow;
-     });
-
-     exportToExcel(exportData, 'Merged_Master_Data');
-     onNotify('完整資料匯出成功！', 'success');
+     try {
+       await exportToExcel(toExportRows(currentData), 'Merged_Master_Data', exportOptions, getExportColumns(visibleFields));
+       onNotify('完整資料匯出成功！', 'success');
+     } catch (e) {
+       console.error(e);
+       onNotify('匯出時發生錯誤', 'error');
+     }
   };
 
   // --- SPLIT & EXPORT ---
-  const executeSplit = () => {
-    if (!splitField || !splitValue) return onNotify('請選擇欄位並輸入篩選值', 'error');
-    const filtered = currentData.filter(row => {
-      const cellValue = row[splitField];
-      const compareValue = splitValue; 
-      const strCell = String(cellValue ?? '').toLowerCase();
-      const strCompare = String(compareValue).toLowerCase();
-
-      if (splitType === 'number') {
-          const numCell = parseFloat(String(cellValue));
-          const numCompare = parseFloat(compareValue);
-          if (isNaN(numCell) || isNaN(numCompare)) return false;
-          switch (splitOperator) {
-            case 'eq': return numCell === numCompare;
-            case 'neq': return numCell !== numCompare;
-            case 'gt': return numCell > numCompare;
-            case 'lt': return numCell < numCompare;
-            case 'gte': return numCell >= numCompare;
-            case 'lte': return numCell <= numCompare;
-            default: return false;
-          }
-      } else {
-          switch (splitOperator) {
-            case 'eq': return strCell === strCompare;
-            case 'neq': return strCell !== strCompare;
-            case 'contains': return strCell.includes(strCompare);
-            case 'not_contains': return !strCell.includes(strCompare);
-            case 'starts_with': return strCell.startsWith(strCompare);
-            case 'ends_with': return strCell.endsWith(strCompare);
-            default: return false;
-          }
-      }
-    });
+  const executeSplit = async () => {
+    let filtered: EmployeeRow[];
+    let fileName: string;
+
+    if (splitMode === 'rules') {
+      if (countConditions(splitRule) === 0) return onNotify('請至少設定一個條件', 'error');
+      const predicate = createRowPredicate(splitRule, currentData);
+      filtered = currentData.filter(predicate);
+      fileName = `Split_Rules_${countConditions(splitRule)}_Conditions`;
+    } else {
+      if (!splitField || !splitValue) return onNotify('請選擇欄位並輸入篩選值', 'error');
+      filtered = currentData.filter(row => matchesCondition(row[splitField], splitOperator, splitValue, splitType));
+      const opLabel = {
+        eq: 'Equals', neq: 'NotEq', gt: 'Gt', lt: 'Lt', gte: 'Gte', lte: 'Lte', 
+        contains: 'Has', not_contains: 'NotHas', starts_with: 'Start', ends_with: 'End'
+      }[splitOperator];
+      fileName = `Split_${splitField}_${opLabel}_${splitValue}`;
+    }
 
     if (filtered.length === 0) {
       onNotify('條件篩選後無任何資料。', 'error');
       return;
     }
-    const exportData = filtered.map(row => {
-      const cleanRow: any = {};
-      visibleFields.forEach(f => {
-        cleanRow[f.label] = row[f.key];
+    try {
+      await exportToExcel(toExportRows(filtered, splitOutputFields), fileName, exportOptions, getExportColumns(splitOutputFields));
+      onNotify('拆分並匯出成功！', 'success');
+    } catch (e) {
+      console.error(e);
+      onNotify('拆分匯出時發生錯誤', 'error');
+    }
+  };
+
+  // --- SPLIT BY DISTINCT VALUE (One output per group) ---
+  const executeGroupSplit = async () => {
+    if (!splitField) return onNotify('請選擇拆分欄位', 'error');
+    if (currentData.length === 0) return onNotify('沒有資料可以匯出', 'error');
+    const fieldLabel = allAvailableFields.find(f => f.key === splitField)?.label || splitField;
+    const headers = splitOutputFields.map(f => f.label);
+    const exportColumns = getExportColumns(splitOutputFields);
+    const groups = groupRowsByField(currentData, splitField);
+    const outputs: SheetData[] = Array.from(groups.entries()).map(([value, rows]) => ({
+      fileName: `${fieldLabel}_${value}`,
+      sheetName: value,
+      headers,
+      rows: toExportRows(rows, splitOutputFields),
+      ...exportColumns,
+    }));
+
+    const { exportProtection, error } = prepareExportProtection(outputs.map(o => o.sheetName), protection, exportOptions.format, groupOutput === 'zip' ? 'files' : 'workbook');
+    if (error) return onNotify(error, 'error');
+
+    try {
+      const baseFileName = `Split_By_${fieldLabel}`;
+      const manifest = groupOutput === 'zip'
+        ? await exportMultipleFilesAsZip(outputs, baseFileName, exportOptions, exportProtection)
+        : await exportWorkbook(outputs, baseFileName, exportOptions, exportProtection);
+      if (manifest.length > 0) setPasswordManifest({ entries: manifest, baseFileName });
+      onNotify(`已依「${fieldLabel}」拆分為 ${outputs.length} 個${groupOutput === 'zip' ? '檔案' : '工作表'}`, 'success');
+    } catch (e) {
+      console.error(e);
+      onNotify('拆分匯出時發生錯誤', 'error');
+    }
+  };
+
+  // --- RUN ALL SPLIT RECIPES ---
+  const executeRecipes = async () => {
+    if (recipes.length === 0) return onNotify('請先新增至少一個拆分方案', 'error');
+    if (currentData.length === 0) return onNotify('沒有資料可以匯出', 'error');
+    const results = runSplitRecipes(currentData, recipes, includeRemainder ? (remainderName.trim() || '未分類') : undefined, visibleFields.map(f => f.key));
+    const nonEmpty = results.filter(r => r.rows.length > 0);
+    if (nonEmpty.length === 0) return onNotify('所有方案篩選後皆無資料。', 'error');
+    // An empty column list would fall back to every visible column, which is exactly what the remainder must not get
+    if (nonEmpty.some(r => r.isRemainder && r.columns?.length === 0)) {
+      return onNotify('各方案沒有共同匯出的欄位，未分類資料無法輸出；請取消輸出未分類資料', 'error');
+    }
+
+    const outputs: SheetData[] = nonEmpty.map(r => {
+      // Dropped columns leave the output; masked ones become plain text so no sums leak into a totals row
+      const dropped = getDroppedFields(r.masking);
+      const outputFields = resolveOutputFields(r.columns, allAvailableFields, visibleFields).filter(f => !dropped.has(f.key));
+      const { columnTypes, columnWidths } = getExportColumns(outputFields);
+      (r.masking || []).forEach(rule => {
+        const label = outputFields.find(f => f.key === rule.field)?.label;
+        if (label) columnTypes[label] = 'string';
       });
-      return cleanRow;
+      return {
+        fileName: r.name,
+        sheetName: r.name,
+        headers: outputFields.map(f => f.label),
+        rows: toExportRows(applyMaskingRules(r.rows, r.masking), outputFields),
+        columnTypes,
+        columnWidths,
+      };
     });
-    const opLabel = {
-      eq: 'Equals', neq: 'NotEq', gt: 'Gt', lt: 'Lt', gte: 'Gte', lte: 'Lte', 
-      contains: 'Has', not_contains: 'NotHas', starts_with: 'Start', ends_with: 'End'
-    }[splitOperator];
-    exportToExcel(exportData, `Split_${splitField}_${opLabel}_${splitValue}`);
-    onNotify('拆分並匯出成功！', 'success');
+
+    const { exportProtection, error } = prepareExportProtection(outputs.map(o => o.sheetName), protection, exportOptions.format, groupOutput === 'zip' ? 'files' : 'workbook');
+    if (error) return onNotify(error, 'error');
+
+    try {
+      const manifest = groupOutput === 'zip'
+        ? await exportMultipleFilesAsZip(outputs, 'Split_Recipes', exportOptions, exportProtection)
+        : await exportWorkbook(outputs, 'Split_Recipes', exportOptions, exportProtection);
+      if (manifest.length > 0) setPasswordManifest({ entries: manifest, baseFileName: 'Split_Recipes' });
+      const skipped = results.length - nonEmpty.length;
+      onNotify(`已產出 ${outputs.length} 份資料${skipped > 0 ? ` (${skipped} 個方案無資料已略過)` : ''}`, 'success');
+    } catch (e) {
+      console.error(e);
+      onNotify('拆分匯出時發生錯誤', 'error');
+    }
   };
 
+  // Search text and (optionally) the compound split rule share the same predicate engine
   const displayedData = useMemo(() => {
-    if (!filterText) return currentData;
-    const lower = filterText.toLowerCase();
-    return currentData.filter(row => {
-      return allAvailableFields.some(f => String(row[f.key]).toLowerCase().includes(lower));
-    });
-  }, [currentData, filterText, allAvailableFields]);
+    const useRule = splitMode === 'rules' && applyRuleToTable && countConditions(splitRule) > 0;
+    if (!filterText && !useRule) return currentData;
+    const matchesSearch = filterText ? createTextSearchPredicate(filterText, allAvailableFields) : () => true;
+    const matchesRule = useRule ? createRowPredicate(splitRule, currentData) : () => true;
+    return currentData.filter(row => matchesSearch(row) && matchesRule(row));
+  }, [currentData, filterText, allAvailableFields, splitMode, applyRuleToTable, splitRule]);
 
   return (
     <div className="h-full flex flex-col bg-slate-50">
+      {showReconciliation && (
+        <ReconciliationModal entries={reconciliation} onClose={() => setShowReconciliation(false)} onNotify={onNotify} />
+      )}
+      {passwordManifest && (
+        <PasswordManifestModal entries={passwordManifest.entries} baseFileName={passwordManifest.baseFileName} onClose={() => setPasswordManifest(null)} />
+      )}
+
       {/* Top Control Bar */}
       <div className="bg-white border-b border-slate-200 px-6 py-4 shadow-sm z-[60] relative">
         <div className="flex flex-col xl:flex-row xl:items-center justify-between gap-4">
@@ -573,6 +696,39 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
                  <button onClick={onBack} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 hover:underline">
                     <Edit size={12}/> 修改欄位對應
                  </button>
+                 {reconciliation.length > 0 && (
+                   <button 
+                     onClick={() => setShowReconciliation(true)}
+                     className="flex items-center gap-1 text-xs text-indigo-700 bg-indigo-50 border border-indigo-200 px-2 py-0.5 rounded hover:bg-indigo-100"
+                   >
+                     <Scale size={12}/> 對帳報告
+                   </button>
+                 )}
+                 {duplicateSheets.length > 0 && (
+                   <div className="relative">
+                     <button 
+                       onClick={() => setShowDuplicateReport(!showDuplicateReport)}
+                       className="flex items-center gap-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 px-2 py-0.5 rounded hover:bg-amber-100"
+                     >
+                       <AlertTriangle size={12}/> 重複 Key 報告
+                     </button>
+                     {showDuplicateReport && (
+                       <div className="absolute left-0 top-full mt-2 w-80 bg-white rounded-lg shadow-xl border border-slate-200 z-50 p-3 animate-in fade-in zoom-in-95 duration-100">
+                         <div className="text-xs font-semibold text-slate-500 mb-2">
+                           {removeDuplicates ? '以下重複列已依設定合併為一列' : '以下重複列已全部保留 (每種組合一列)'}
+                         </div>
+                         <div className="space-y-1 max-h-60 overflow-y-auto custom-scrollbar">
+                           {duplicateSheets.map(d => (
+                             <div key={`${d.fileName}::${d.sheetName}`} className="flex items-center justify-between gap-2 text-xs p-1.5 rounded bg-slate-50">
+                               <span className="truncate text-slate-700" title={`${d.fileName} / ${d.sheetName}`}>{d.fileName} / {d.sheetName}</span>
+                               <span className="shrink-0 text-amber-700 font-medium">{d.duplicateKeys} 個 Key · {d.duplicateRows} 列</span>
+                             </div>
+                           ))}
+                         </div>
+                       </div>
+                     )}
+                   </div>
+                 )}
               </div>
             </div>
           </div>
@@ -585,70 +741,192 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
                 <Split size={18} className="text-purple-600" />
                 <span className="text-sm font-semibold text-slate-700 whitespace-nowrap">拆分下載:</span>
               </div>
-              
-              <select 
-                value={splitField} 
-                onChange={(e) => setSplitField(e.target.value)}
-                className="px-2 py-1.5 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none max-w-[120px]"
-              >
-                {allAvailableFields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
-              </select>
-
-              <div 
-                className={`px-2 py-1 rounded text-xs font-bold flex items-center gap-1
-                  ${splitType === 'number' ? 'bg-green-100 text-green-700' : 'bg-orange-100 text-orange-700'}
-                `}
-                title={splitType === 'number' ? '偵測為數值' : '偵測為文字'}
-              >
-                {splitType === 'number' ? <Hash size={12}/> : <Type size={12}/>}
+
+              <div className="flex p-0.5 bg-white rounded border border-slate-300">
+                <button
+                  onClick={() => setSplitMode('filter')}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors ${splitMode === 'filter' ? 'bg-purple-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+                  title="依條件篩選出單一份資料"
+                >
+                  條件
+                </button>
+                <button
+                  onClick={() => setSplitMode('rules')}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors ${splitMode === 'rules' ? 'bg-purple-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+                  title="組合多個條件 (AND / OR 群組)"
+                >
+                  進階條件
+                </button>
+                <button
+                  onClick={() => setSplitMode('distinct')}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors ${splitMode === 'distinct' ? 'bg-purple-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+                  title="依欄位的每個不同值各產生一份資料"
+                >
+                  依值分組
+                </button>
+                <button
+                  onClick={() => setSplitMode('recipes')}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors ${splitMode === 'recipes' ? 'bg-purple-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+                  title="執行多個具名拆分方案，一次產出多份檔案"
+                >
+                  拆分方案
+                </button>
               </div>
+              
+              {splitMode !== 'recipes' && (
+                <div className="relative">
+                  <button
+                    onClick={() => setShowSplitColumns(!showSplitColumns)}
+                    className={`p-1.5 rounded border transition-colors ${splitColumns.length > 0 ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-slate-500 border-slate-300 hover:bg-slate-50'}`}
+                    title="輸出欄位 (與畫面顯示欄位分開設定)"
+                  >
+                    <Columns size={16} />
+                  </button>
+                  {showSplitColumns && (
+                    <div className="absolute left-0 top-full mt-2 w-96 bg-white rounded-lg shadow-xl border border-slate-200 z-50 p-3 animate-in fade-in zoom-in-95 duration-100">
+                      <div className="text-xs font-semibold text-slate-500 mb-2">拆分輸出欄位 (順序與標題)</div>
+                      <OutputColumnsEditor columns={splitColumns} fields={allAvailableFields} onChange={setSplitColumns} />
+                    </div>
+                  )}
+                </div>
+              )}
 
-              <select 
-                value={splitOperator} 
-                onChange={(e) => setSplitOperator(e.target.value as FilterOperator)}
-                className="px-2 py-1.5 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none bg-white min-w-[100px]"
-              >
-                {splitType === 'number' ? (
-                  <>
-                    <option value="lte">小於等於 (&le;)</option>
-                    <option value="gte">大於等於 (&ge;)</option>
-                    <option value="eq">等於 (=)</option>
-                    <option value="neq">不等於 (&ne;)</option>
-                    <option value="gt">大於 (&gt;)</option>
-                    <option value="lt">小於 (&lt;)</option>
-                  </>
-                ) : (
-                  <>
-                    <option value="contains">包含</option>
-                    <option value="not_contains">不包含</option>
-                    <option value="eq">完全符合</option>
-                    <option value="neq">不符合</option>
-                    <option value="starts_with">開頭為</option>
-                    <option value="ends_with">結尾為</option>
-                  </>
-                )}
-              </select>
-
-              <input 
-                type="text" 
-                placeholder={splitType === 'number' ? "輸入數值" : "輸入關鍵字"}
-                className="w-24 px-3 py-1.5 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none"
-                value={splitValue}
-                onChange={(e) => setSplitValue(e.target.value)}
-              />
-
-              <button 
-                onClick={executeSplit}
-                disabled={!splitValue}
-                className={`flex items-center gap-2 px-4 py-1.5 rounded text-sm font-medium transition-colors ml-auto sm:ml-0
-                  ${splitValue 
-                    ? 'bg-purple-600 text-white hover:bg-purple-700 shadow-sm' 
-                    : 'bg-slate-200 text-slate-400 cursor-not-allowed'}
-                `}
-                title="下載符合條件的資料"
-              >
-                <Download size={16} />
-              </button>
+              {(splitMode === 'filter' || splitMode === 'distinct') && (
+                <select 
+                  value={splitField} 
+                  onChange={(e) => setSplitField(e.target.value)}
+                  className="px-2 py-1.5 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none max-w-[120px]"
+                >
+                  {allAvailableFields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                </select>
+              )}
+
+              {splitMode === 'rules' && (
+                <>
+                  <span className="text-xs text-slate-600 bg-white border border-slate-300 rounded px-2 py-1.5 max-w-[220px] truncate" title={describeRule(splitRule, allAvailableFields)}>
+                    {describeRule(splitRule, allAvailableFields) || '尚未設定條件'}
+                  </span>
+                  <button 
+                    onClick={executeSplit}
+                    disabled={countConditions(splitRule) === 0}
+                    className={`flex items-center gap-2 px-4 py-1.5 rounded text-sm font-medium transition-colors ml-auto sm:ml-0
+                      ${countConditions(splitRule) > 0 
+                        ? 'bg-purple-600 text-white hover:bg-purple-700 shadow-sm' 
+                        : 'bg-slate-200 text-slate-400 cursor-not-allowed'}
+                    `}
+                    title="下載符合條件的資料"
+                  >
+                    <Download size={16} />
+                  </button>
+                </>
+              )}
+
+              {splitMode === 'filter' && (
+                <>
+                  <div 
+                    className={`px-2 py-1 rounded text-xs font-bold flex items-center gap-1
+                      ${splitType === 'number' ? 'bg-green-100 text-green-700' : 'bg-orange-100 text-orange-700'}
+                    `}
+                    title={splitType === 'number' ? '偵測為數值' : '偵測為文字'}
+                  >
+                    {splitType === 'number' ? <Hash size={12}/> : <Type size={12}/>}
+                  </div>
+
+                  <select 
+                    value={splitOperator} 
+                    onChange={(e) => setSplitOperator(e.target.value as FilterOperator)}
+                    className="px-2 py-1.5 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none bg-white min-w-[100px]"
+                  >
+                    {splitType === 'number' ? (
+                      <>
+                        <option value="lte">小於等於 (&le;)</option>
+                        <option value="gte">大於等於 (&ge;)</option>
+                        <option value="eq">等於 (=)</option>
+                        <option value="neq">不等於 (&ne;)</option>
+                        <option value="gt">大於 (&gt;)</option>
+                        <option value="lt">小於 (&lt;)</option>
+                      </>
+                    ) : (
+                      <>
+                        <option value="contains">包含</option>
+                        <option value="not_contains">不包含</option>
+                        <option value="eq">完全符合</option>
+                        <option value="neq">不符合</option>
+                        <option value="starts_with">開頭為</option>
+                        <option value="ends_with">結尾為</option>
+                      </>
+                    )}
+                  </select>
+
+                  <input 
+                    type="text" 
+                    placeholder={splitType === 'number' ? "輸入數值" : "輸入關鍵字"}
+                    className="w-24 px-3 py-1.5 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none"
+                    value={splitValue}
+                    onChange={(e) => setSplitValue(e.target.value)}
+                  />
+
+                  <button 
+                    onClick={executeSplit}
+                    disabled={!splitValue}
+                    className={`flex items-center gap-2 px-4 py-1.5 rounded text-sm font-medium transition-colors ml-auto sm:ml-0
+                      ${splitValue 
+                        ? 'bg-purple-600 text-white hover:bg-purple-700 shadow-sm' 
+                        : 'bg-slate-200 text-slate-400 cursor-not-allowed'}
+                    `}
+                    title="下載符合條件的資料"
+                  >
+                    <Download size={16} />
+                  </button>
+                </>
+              )}
+
+              {(splitMode === 'distinct' || splitMode === 'recipes') && (
+                <>
+                  {splitMode === 'recipes' && (
+                    <span className="text-xs text-slate-600 bg-white border border-slate-300 rounded px-2 py-1.5">
+                      {recipes.length} 個方案
+                    </span>
+                  )}
+                  <select
+                    value={groupOutput}
+                    onChange={(e) => setGroupOutput(e.target.value as GroupOutput)}
+                    className="px-2 py-1.5 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none bg-white"
+                  >
+                    <option value="zip">{splitMode === 'recipes' ? '每份一個檔案 (ZIP)' : '每組一個檔案 (ZIP)'}</option>
+                    <option value="sheets">{splitMode === 'recipes' ? '每份一個工作表' : '每組一個工作表'}</option>
+                  </select>
+
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowProtection(!showProtection)}
+                      className={`p-1.5 rounded border transition-colors ${protection.mode !== 'none' ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-slate-500 border-slate-300 hover:bg-slate-50'}`}
+                      title="檔案加密 / 唯讀保護"
+                    >
+                      <Lock size={16} />
+                    </button>
+                    {showProtection && (
+                      <div className="absolute left-0 top-full mt-2 w-72 bg-white rounded-lg shadow-xl border border-slate-200 z-50 p-3 animate-in fade-in zoom-in-95 duration-100">
+                        <div className="text-xs font-semibold text-slate-500 mb-2">輸出檔案保護</div>
+                        <OutputProtectionPanel protection={protection} format={exportOptions.format} target={groupOutput === 'zip' ? 'files' : 'workbook'} onChange={setProtection} onNotify={onNotify} />
+                      </div>
+                    )}
+                  </div>
+
+                  <button 
+                    onClick={splitMode === 'recipes' ? executeRecipes : executeGroupSplit}
+                    disabled={splitMode === 'recipes' ? recipes.length === 0 : !splitField}
+                    className={`flex items-center gap-2 px-4 py-1.5 rounded text-sm font-medium transition-colors ml-auto sm:ml-0
+                      ${(splitMode === 'recipes' ? recipes.length > 0 : splitField) 
+                        ? 'bg-purple-600 text-white hover:bg-purple-700 shadow-sm' 
+                        : 'bg-slate-200 text-slate-400 cursor-not-allowed'}
+                    `}
+                    title={splitMode === 'recipes' ? '執行所有拆分方案並下載' : '依所選欄位的每個不同值拆分下載'}
+                  >
+                    <Download size={16} />
+                  </button>
+                </>
+              )}
             </div>
             
             <div className="w-px h-8 bg-slate-200 mx-1 hidden xl:block"></div>
@@ -663,6 +941,24 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
               下載完整報表
             </button>
 
+            {/* Export format applies to every download and split button */}
+            <div className="relative">
+              <button
+                onClick={() => setShowExportOptions(!showExportOptions)}
+                className="flex items-center gap-1.5 px-3 py-2 bg-white text-slate-700 rounded-lg border border-slate-300 hover:bg-slate-50 shadow-sm text-sm font-medium uppercase"
+                title="匯出檔案格式"
+              >
+                <Settings2 size={16} />
+                {exportOptions.format}
+              </button>
+              {showExportOptions && (
+                <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-lg shadow-xl border border-slate-200 z-50 p-3 animate-in fade-in zoom-in-95 duration-100">
+                  <div className="text-xs font-semibold text-slate-500 mb-2">匯出格式</div>
+                  <ExportOptionsPanel options={exportOptions} onChange={setExportOptions} />
+                </div>
+              )}
+            </div>
+
             <button 
               onClick={() => setShowCleaningTools(!showCleaningTools)}
               className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition-all shadow-sm relative
@@ -679,6 +975,37 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
         </div>
       </div>
 
+      {/* Compound Split Rule Builder */}
+      {splitMode === 'rules' && (
+        <div className="px-6 py-4 bg-purple-50 border-b border-purple-100 flex flex-col gap-3 shadow-inner z-40 relative">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <span className="text-sm font-bold text-purple-900 flex items-center gap-1">
+              <Split size={16} /> 進階拆分條件
+            </span>
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+              <input type="checkbox" checked={applyRuleToTable} onChange={e => setApplyRuleToTable(e.target.checked)} className="w-4 h-4 rounded border-slate-300 text-purple-600" />
+              同步篩選下方表格
+            </label>
+          </div>
+          <RuleBuilder rule={splitRule} fields={allAvailableFields} onChange={setSplitRule} />
+        </div>
+      )}
+
+      {/* Named Split Recipes */}
+      {splitMode === 'recipes' && (
+        <div className="px-6 py-4 bg-purple-50 border-b border-purple-100 shadow-inner z-40 relative">
+          <SplitRecipePanel
+            recipes={recipes}
+            fields={allAvailableFields}
+            includeRemainder={includeRemainder}
+            remainderName={remainderName}
+            onChange={setRecipes}
+            onIncludeRemainderChange={setIncludeRemainder}
+            onRemainderNameChange={setRemainderName}
+          />
+        </div>
+      )}
+
       {/* Enhanced Cleaning Toolbar (Ported from DataCleaner) */}
       {showCleaningTools && (
         <div className="px-6 py-4 bg-indigo-50 border-b border-indigo-100 flex flex-col gap-4 animate-in slide-in-from-top-2 duration-200 shadow-inner z-30 relative">
@@ -729,7 +1056,7 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
               </div>
            </div>
 
-           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
               
               {/* Group 1: Text Operations */}
               <div className="flex flex-col gap-2">
@@ -842,6 +1169,37 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
                  </div>
               </div>
 
+              {/* Group 4: Masking Operations */}
+              <div className="flex flex-col gap-2">
+                 <div className="flex items-center gap-2 text-indigo-800 text-sm font-bold">
+                    <EyeOff size={16}/> 遮罩與去識別 (Masking)
+                 </div>
+                 <div className="bg-white p-2 rounded-lg border border-slate-200 shadow-sm flex flex-col gap-2">
+                    <select 
+                      value={selectedMaskOp} 
+                      onChange={(e) => setSelectedMaskOp(e.target.value as MaskingOperation)}
+                      className="w-full text-sm border-slate-300 rounded-md py-1.5 focus:ring-indigo-500 border"
+                    >
+                        {MASKING_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                    </select>
+
+                    {selectedMaskOp === 'hash' && (
+                        <input type="text" placeholder="鹽值 (Salt)..." value={maskSalt} onChange={e => setMaskSalt(e.target.value)} className="w-full text-sm border p-1 rounded" />
+                    )}
+
+                    {selectedMaskOp === 'bucket' && (
+                        <div className="flex items-center gap-2">
+                             <span className="text-xs text-slate-500">級距:</span>
+                             <input type="number" min="1" value={bucketSize} onChange={e => setBucketSize(parseFloat(e.target.value) || 0)} className="w-full text-sm border p-1 rounded" />
+                        </div>
+                    )}
+
+                    <button onClick={executeMaskingOp} className="w-full py-1 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 text-xs font-bold rounded border border-indigo-200 flex items-center justify-center gap-1">
+                       <Play size={12}/> 執行
+                    </button>
+                 </div>
+              </div>
+
            </div>
         </div>
       )}
@@ -967,8 +1325,12 @@ export const MasterTable: React.FC<MasterTableProps> = ({ data, fields, onDataUp
                   </td>
 
                   {visibleFields.map(field => (
-                    <td key={field.key} className="px-1 py-1 border-r border-slate-100 relative overflow-hidden bg-inherit">
-                       {!field.key.startsWith('_') ? (
+                    <td
+                      key={field.key}
+                      className={`px-1 py-1 border-r border-slate-100 relative overflow-hidden ${row[getConflictFlagKey(field.key)] ? 'bg-red-50' : 'bg-inherit'}`}
+                      title={row[getConflictFlagKey(field.key)] ? '合併時各檔案的值不一致' : undefined}
+                    >
+                       {!field.key.startsWith('_') && !isComputedField(field) ? (
                           <input 
                             type="text" 
                             value={String(row[field.key] !== undefined ? row[field.key] : '')}
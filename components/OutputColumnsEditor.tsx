@@ -0,0 +1,81 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { FieldDefinition, OutputColumn } from '../types';
+
+interface OutputColumnsEditorProps {
+  columns: OutputColumn[];
+  fields: FieldDefinition[];
+  onChange: (columns: OutputColumn[]) => void;
+}
+
+export const OutputColumnsEditor: React.FC<OutputColumnsEditorProps> = ({ columns, fields, onChange }) => {
+  const remaining = fields.filter(f => !columns.some(c => c.key === f.key));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const updateLabel = (index: number, label: string) => {
+    onChange(columns.map((c, i) => i === index ? { ...c, label } : c));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {columns.length === 0 ? (
+        <div className="text-xs text-slate-400 italic">未指定，使用畫面上顯示的欄位</div>
+      ) : (
+        <div className="flex flex-col gap-1 max-h-56 overflow-y-auto custom-scrollbar">
+          {columns.map((col, idx) => {
+            const field = fields.find(f => f.key === col.key);
+            return (
+              <div key={col.key} className="flex items-center gap-1.5">
+                <button onClick={() => move(idx, -1)} disabled={idx === 0} className="text-slate-400 hover:text-slate-700 disabled:opacity-30"><ArrowUp size={12} /></button>
+                <button onClick={() => move(idx, 1)} disabled={idx === columns.length - 1} className="text-slate-400 hover:text-slate-700 disabled:opacity-30"><ArrowDown size={12} /></button>
+                <span className={`w-28 text-xs truncate ${field ? 'text-slate-600' : 'text-red-400 line-through'}`} title={field?.label || col.key}>
+                  {field?.label || col.key}
+                </span>
+                <span className="text-xs text-slate-400">→</span>
+                <input
+                  type="text"
+                  value={col.label}
+                  onChange={e => updateLabel(idx, e.target.value)}
+                  placeholder={field?.label || '欄位名稱'}
+                  className="flex-1 min-w-0 px-2 py-0.5 text-xs border border-slate-300 rounded outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <button onClick={() => onChange(columns.filter((_, i) => i !== idx))} className="text-slate-300 hover:text-red-500" title="移除欄位">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <select
+          value=""
+          onChange={e => e.target.value && onChange([...columns, { key: e.target.value, label: '' }])}
+          disabled={remaining.length === 0}
+          className="px-2 py-1 text-xs border border-slate-300 rounded bg-white outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-slate-100"
+        >
+          <option value="">+ 新增輸出欄位</option>
+          {remaining.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+        </select>
+        {remaining.length > 0 && (
+          <button onClick={() => onChange([...columns, ...remaining.map(f => ({ key: f.key, label: '' }))])} className="text-xs text-purple-700 hover:text-purple-900 font-medium">
+            全部加入
+          </button>
+        )}
+        {columns.length > 0 && (
+          <button onClick={() => onChange([])} className="text-xs text-slate-500 hover:text-slate-700 underline">
+            清除 (改用畫面欄位)
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
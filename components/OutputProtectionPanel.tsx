@@ -0,0 +1,107 @@
+import React, { useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { ExportFormat, OutputProtection, ProtectionMode } from '../types';
+import { readPasswordMap } from '../utils/outputProtection';
+import { ToastType } from './Toast';
+
+interface OutputProtectionPanelProps {
+  protection: OutputProtection;
+  format: ExportFormat;
+  target: 'files' | 'workbook'; // One file per output, or every output as a sheet of one workbook
+  onChange: (protection: OutputProtection) => void;
+  onNotify: (msg: string, type: ToastType) => void;
+}
+
+const PROTECTION_OPTIONS: { value: ProtectionMode; label: string }[] = [
+  { value: 'none', label: '不加密' },
+  { value: 'zip', label: '加密 ZIP (每個檔案一組密碼)' },
+  { value: 'sheet', label: '工作表唯讀保護 (僅 xlsx)' },
+];
+
+export const OutputProtectionPanel: React.FC<OutputProtectionPanelProps> = ({ protection, format, target, onChange, onNotify }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<OutputProtection>) => onChange({ ...protection, ...patch });
+  const mappedCount = Object.keys(protection.passwordMap).length;
+
+  const handleMappingFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const passwordMap = await readPasswordMap(file);
+      if (Object.keys(passwordMap).length === 0) return onNotify('對照檔中沒有可用的密碼', 'error');
+      update({ passwordMap, passwordSource: 'mapping' });
+      onNotify(`已載入 ${Object.keys(passwordMap).length} 組密碼`, 'success');
+    } catch (err) {
+      console.error(err);
+      onNotify(err instanceof Error ? err.message : '讀取對照檔失敗', 'error');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <select
+        value={protection.mode}
+        onChange={e => update({ mode: e.target.value as ProtectionMode })}
+        className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-purple-500 bg-white"
+      >
+        {PROTECTION_OPTIONS.map(opt => (
+          <option key={opt.value} value={opt.value} disabled={opt.value === 'zip' && target === 'workbook'}>{opt.label}</option>
+        ))}
+      </select>
+
+      {protection.mode === 'zip' && target === 'workbook' && (
+        <p className="text-[11px] text-red-500">加密 ZIP 只能用於每份一個檔案的輸出；輸出為工作表時請改用唯讀保護，否則檔案不會加密。</p>
+      )}
+      {protection.mode === 'sheet' && (
+        <p className="text-[11px] text-slate-400">唯讀保護只防止修改，內容不會加密，任何人仍可開啟檢視。{target === 'workbook' ? '每個工作表使用各自的密碼。' : ''}</p>
+      )}
+
+      {protection.mode === 'sheet' && format !== 'xlsx' && (
+        <p className="text-[11px] text-red-500">唯讀保護只支援 xlsx，請先將匯出格式改為 Excel。</p>
+      )}
+
+      {protection.mode !== 'none' && (
+        <>
+          <div className="flex gap-4 text-xs text-slate-600">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="radio" checked={protection.passwordSource === 'template'} onChange={() => update({ passwordSource: 'template' })} />
+              密碼範本
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input type="radio" checked={protection.passwordSource === 'mapping'} onChange={() => update({ passwordSource: 'mapping' })} />
+              密碼對照檔
+            </label>
+          </div>
+
+          {protection.passwordSource === 'template' ? (
+            <div className="flex flex-col gap-1">
+              <input
+                type="text"
+                value={protection.template}
+                onChange={e => update({ template: e.target.value })}
+                placeholder="{name}-{random:6}"
+                className="w-full px-2 py-1.5 text-sm font-mono border border-slate-300 rounded outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <p className="text-[11px] text-slate-400">{'{name}'} 輸出名稱、{'{date}'} 今天日期、{'{random:N}'} N 個隨機字元</p>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center justify-center gap-2 px-3 py-1.5 text-xs border border-dashed border-slate-300 rounded hover:bg-slate-50 text-slate-600"
+              >
+                <Upload size={14} />
+                {mappedCount > 0 ? `已載入 ${mappedCount} 組密碼，重新選擇` : '選擇對照檔 (.xlsx / .csv)'}
+              </button>
+              <p className="text-[11px] text-slate-400">第一欄為輸出名稱，第二欄為密碼。</p>
+              <input ref={fileInputRef} type="file" accept=".xlsx,.xls,.ods,.csv,.tsv,.txt" onChange={handleMappingFile} className="hidden" />
+            </div>
+          )}
+
+          <p className="text-[11px] text-slate-400">匯出後會列出所有密碼，可從清單下載 CSV，請與檔案分開寄送。</p>
+        </>
+      )}
+    </div>
+  );
+};
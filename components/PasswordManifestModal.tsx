@@ -0,0 +1,61 @@
+import React from 'react';
+import { X, KeyRound, FileDown } from 'lucide-react';
+import { PasswordManifestEntry } from '../types';
+import { downloadPasswordManifest } from '../utils/excelUtils';
+
+interface PasswordManifestModalProps {
+  entries: PasswordManifestEntry[];
+  baseFileName: string;
+  onClose: () => void;
+}
+
+// Shown after a protected export; this is the only place the generated passwords can be recovered
+export const PasswordManifestModal: React.FC<PasswordManifestModalProps> = ({ entries, baseFileName, onClose }) => (
+  <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4">
+    <div className="absolute inset-0 bg-black/50 backdrop-blur-sm"></div>
+    <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 relative z-[2001] animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <KeyRound className="text-purple-600" /> 密碼清單
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={24} />
+        </button>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">關閉後將無法再次取得這些密碼，請先下載密碼清單，並與檔案分開寄送。</p>
+
+      <div className="flex-1 overflow-auto custom-scrollbar border border-slate-200 rounded-lg">
+        <table className="w-full text-sm text-left border-collapse">
+          <thead className="bg-slate-50 text-slate-600 sticky top-0 shadow-sm">
+            <tr>
+              <th className="px-3 py-2 border-b border-slate-200">輸出</th>
+              <th className="px-3 py-2 border-b border-slate-200">檔案</th>
+              <th className="px-3 py-2 border-b border-slate-200">密碼</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {entries.map((e, idx) => (
+              <tr key={`${idx}-${e.output}`}>
+                <td className="px-3 py-2 text-slate-700">{e.output}</td>
+                <td className="px-3 py-2 text-xs text-slate-500">{e.file}</td>
+                <td className="px-3 py-2 font-mono font-bold text-slate-800 select-all">{e.password}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex gap-3 pt-4">
+        <button onClick={onClose} className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+          關閉
+        </button>
+        <button
+          onClick={() => downloadPasswordManifest(entries, baseFileName)}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 shadow-sm transition-colors"
+        >
+          <FileDown size={16} /> 下載密碼清單 (CSV)
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { X, Scale, FileDown, CheckCircle, AlertTriangle, AlertCircle } from 'lucide-react';
+import { ReconciliationEntry } from '../types';
+import { exportToExcel } from '../utils/excelUtils';
+import { ToastType } from './Toast';
+
+interface ReconciliationModalProps {
+  entries: ReconciliationEntry[];
+  onClose: () => void;
+  onNotify: (msg: string, type: ToastType) => void;
+}
+
+type ReconciliationFilter = 'all' | 'missing' | 'conflict' | 'excluded';
+
+// Rendering every key of a large join would freeze the modal; the export contains every key of the active tab
+const MAX_VISIBLE_ROWS = 500;
+
+const formatConflicts = (entry: ReconciliationEntry) =>
+  entry.conflicts.map(c => `${c.field}: ${c.values.map(v => `${v.value} (${v.sheet})`).join(' ≠ ')}`).join('\n');
+
+export const ReconciliationModal: React.FC<ReconciliationModalProps> = ({ entries, onClose, onNotify }) => {
+  const [filter, setFilter] = useState<ReconciliationFilter>('all');
+
+  const counts = useMemo(() => ({
+    all: entries.length,
+    missing: entries.filter(e => e.missingFrom.length > 0).length,
+    conflict: entries.filter(e => e.conflicts.length > 0).length,
+    excluded: entries.filter(e => !e.inOutput).length,
+  }), [entries]);
+
+  const filtered = useMemo(() => entries.filter(e => {
+    if (filter === 'missing') return e.missingFrom.length > 0;
+    if (filter === 'conflict') return e.conflicts.length > 0;
+    if (filter === 'excluded') return !e.inOutput;
+    return true;
+  }), [entries, filter]);
+
+  const handleExport = async () => {
+    const rows = filtered.map(e => ({
+      'Key': e.key,
+      '出現於': e.presentIn.join(', '),
+      '缺少於': e.missingFrom.join(', '),
+      '衝突欄位數': e.conflicts.length,
+      '衝突明細': formatConflicts(e),
+      '納入合併結果': e.inOutput ? 'Y' : 'N',
+    }));
+    try {
+      await exportToExcel(rows, 'Join_Reconciliation');
+      onNotify('對帳報告匯出成功！', 'success');
+    } catch (e) {
+      console.error(e);
+      onNotify('匯出對帳報告時發生錯誤', 'error');
+    }
+  };
+
+  const tabs: { id: ReconciliationFilter; label: string }[] = [
+    { id: 'all', label: '全部 Key' },
+    { id: 'missing', label: '有缺漏' },
+    { id: 'conflict', label: '欄位衝突' },
+    { id: 'excluded', label: '未納入結果' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full p-6 relative z-[2001] animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Scale className="text-indigo-600" /> 合併對帳報告
+          </h3>
+          <div className="flex items-center gap-3">
+            <button onClick={handleExport} className="flex items-center gap-2 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-bold shadow-sm">
+              <FileDown size={16} /> 匯出報告 ({tabs.find(t => t.id === filter)?.label} {filtered.length})
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-3 flex-wrap">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setFilter(tab.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${filter === tab.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+            >
+              {tab.label} <span className="opacity-70">({counts[tab.id]})</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar border border-slate-200 rounded-lg">
+          <table className="w-full text-sm text-left border-collapse">
+            <thead className="bg-slate-50 text-slate-600 sticky top-0 shadow-sm">
+              <tr>
+                <th className="px-3 py-2 border-b border-slate-200 w-40">Key</th>
+                <th className="px-3 py-2 border-b border-slate-200">出現於</th>
+                <th className="px-3 py-2 border-b border-slate-200">缺少於</th>
+                <th className="px-3 py-2 border-b border-slate-200">欄位衝突</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.slice(0, MAX_VISIBLE_ROWS).map((e, idx) => (
+                <tr key={`${idx}-${e.key}`} className={e.inOutput ? '' : 'bg-slate-50 text-slate-400'}>
+                  <td className="px-3 py-2 font-mono font-bold align-top">
+                    <div className="flex items-center gap-1.5">
+                      {e.missingFrom.length === 0 && e.conflicts.length === 0 && <CheckCircle size={14} className="text-green-600 shrink-0" />}
+                      {e.missingFrom.length > 0 && <AlertCircle size={14} className="text-amber-500 shrink-0" />}
+                      {e.conflicts.length > 0 && <AlertTriangle size={14} className="text-red-500 shrink-0" />}
+                      <span className="truncate" title={e.key}>{e.key}</span>
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-slate-600 align-top">{e.presentIn.join(', ')}</td>
+                  <td className="px-3 py-2 text-xs text-amber-700 align-top">{e.missingFrom.join(', ') || '-'}</td>
+                  <td className="px-3 py-2 text-xs text-red-700 align-top whitespace-pre-line">{formatConflicts(e) || '-'}</td>
+                </tr>
+              ))}
+              {filtered.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="text-center py-12 text-slate-400">沒有符合的 Key</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {filtered.length > MAX_VISIBLE_ROWS && (
+          <div className="mt-2 text-xs text-slate-500 text-right">僅顯示前 {MAX_VISIBLE_ROWS} 筆，匯出報告包含全部 {filtered.length} 筆</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Plus, X, FolderPlus } from 'lucide-react';
+import { FieldDefinition, FilterGroup, FilterNode, FilterOperator } from '../types';
+import { OPERATOR_LABELS, createCondition, createGroup, updateRuleNode, removeRuleNode } from '../utils/filterEngine';
+
+interface RuleBuilderProps {
+  rule: FilterGroup;
+  fields: FieldDefinition[];
+  onChange: (rule: FilterGroup) => void;
+}
+
+const ALL_OPERATORS = Object.keys(OPERATOR_LABELS) as FilterOperator[];
+
+export const RuleBuilder: React.FC<RuleBuilderProps> = ({ rule, fields, onChange }) => {
+  const update = (id: string, patch: Partial<FilterNode>) => {
+    onChange(updateRuleNode(rule, id, node => ({ ...node, ...patch } as FilterNode)));
+  };
+
+  const addChild = (groupId: string, child: FilterNode) => {
+    onChange(updateRuleNode(rule, groupId, node => node.kind === 'group' ? { ...node, children: [...node.children, child] } : node));
+  };
+
+  const renderGroup = (group: FilterGroup, depth: number): React.ReactNode => (
+    <div key={group.id} className={`flex flex-col gap-2 ${depth > 0 ? 'p-2 pl-3 border-l-4 border-purple-200 bg-purple-50/40 rounded-r-lg' : ''}`}>
+      <div className="flex items-center gap-2">
+        <div className="flex p-0.5 bg-white rounded border border-slate-300">
+          {(['and', 'or'] as const).map(logic => (
+            <button
+              key={logic}
+              onClick={() => update(group.id, { logic })}
+              className={`px-2 py-0.5 rounded text-xs font-bold transition-colors ${group.logic === logic ? 'bg-purple-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {logic === 'and' ? 'AND 全部符合' : 'OR 任一符合'}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => addChild(group.id, createCondition(fields[0]?.key || ''))} className="flex items-center gap-1 text-xs text-purple-700 hover:text-purple-900 font-medium">
+          <Plus size={12} /> 條件
+        </button>
+        <button onClick={() => addChild(group.id, createGroup(group.logic === 'and' ? 'or' : 'and', [createCondition(fields[0]?.key || '')]))} className="flex items-center gap-1 text-xs text-purple-700 hover:text-purple-900 font-medium">
+          <FolderPlus size={12} /> 群組
+        </button>
+        {depth > 0 && (
+          <button onClick={() => onChange(removeRuleNode(rule, group.id))} className="ml-auto text-slate-400 hover:text-red-500" title="移除群組">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {group.children.length === 0 && (
+        <div className="text-xs text-slate-400 italic">尚未設定條件 (符合全部資料)</div>
+      )}
+
+      {group.children.map(child => child.kind === 'group' ? renderGroup(child, depth + 1) : (
+        <div key={child.id} className="flex items-center gap-2 flex-wrap">
+          <select
+            value={child.field}
+            onChange={(e) => update(child.id, { field: e.target.value })}
+            className="px-2 py-1 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none max-w-[160px] bg-white"
+          >
+            {fields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+          </select>
+          <select
+            value={child.operator}
+            onChange={(e) => update(child.id, { operator: e.target.value as FilterOperator })}
+            className="px-2 py-1 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none bg-white"
+          >
+            {ALL_OPERATORS.map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+          </select>
+          <input
+            type="text"
+            value={child.value}
+            onChange={(e) => update(child.id, { value: e.target.value })}
+            placeholder="比較值"
+            className="w-32 px-2 py-1 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none"
+          />
+          <button onClick={() => onChange(removeRuleNode(rule, child.id))} className="text-slate-400 hover:text-red-500" title="移除條件">
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return <>{renderGroup(rule, 0)}</>;
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { X, WandSparkles, ArrowRight } from 'lucide-react';
+import { SourceTransform, SourceTransformType } from '../types';
+import { SOURCE_TRANSFORM_OPTIONS, createSourceTransform, applySourceTransform, formatLookupText, parseLookupText, validateSourceTransform } from '../utils/sourceTransforms';
+
+interface SourceTransformDialogProps {
+  header: string;
+  sheetLabel: string;
+  sampleValues: any[];          // Distinct values from the column, for the preview
+  transform?: SourceTransform;
+  onSave: (transform: SourceTransform | null) => void; // null removes the transform
+  onCancel: () => void;
+}
+
+export const SourceTransformDialog: React.FC<SourceTransformDialogProps> = ({ header, sheetLabel, sampleValues, transform, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<SourceTransform>(transform || createSourceTransform('lookup'));
+  const [lookupText, setLookupText] = useState(() => formatLookupText(transform?.lookup));
+
+  const update = (patch: Partial<SourceTransform>) => setDraft(prev => ({ ...prev, ...patch }));
+  const current: SourceTransform = draft.type === 'lookup' ? { ...draft, lookup: parseLookupText(lookupText) } : draft;
+  const error = validateSourceTransform(current);
+
+  const changeType = (type: SourceTransformType) => {
+    setDraft(createSourceTransform(type));
+    setLookupText('');
+  };
+
+  // Prefills the lookup table with the column's own values so only the right-hand side needs typing
+  const fillLookupFromSamples = () => {
+    const existing = parseLookupText(lookupText);
+    sampleValues.forEach(v => {
+      const key = String(v).trim();
+      if (key && existing[key] === undefined) existing[key] = '';
+    });
+    setLookupText(formatLookupText(existing));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onCancel}></div>
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 relative z-[2001] animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]">
+        <button onClick={onCancel} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+        <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <WandSparkles size={20} className="text-indigo-600" /> 來源欄位轉換
+        </h3>
+        <p className="text-slate-500 mb-4 text-sm">
+          <span className="font-bold text-slate-700">{header}</span> ({sheetLabel}) 的值會在合併時先經過轉換，再與其他檔案的資料整合。
+        </p>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {SOURCE_TRANSFORM_OPTIONS.map(opt => (
+              <button
+                key={opt.value}
+                onClick={() => changeType(opt.value)}
+                className={`text-left px-3 py-2 rounded-lg border transition-colors ${draft.type === opt.value ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-indigo-200'}`}
+              >
+                <div className={`text-sm font-bold ${draft.type === opt.value ? 'text-indigo-700' : 'text-slate-700'}`}>{opt.label}</div>
+                <div className="text-[11px] text-slate-400">{opt.hint}</div>
+              </button>
+            ))}
+          </div>
+
+          {draft.type === 'lookup' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-slate-500">每行一組「原值 = 新值」，比對時忽略大小寫</span>
+                <button onClick={fillLookupFromSamples} className="text-indigo-600 font-medium hover:underline">填入欄位中的值</button>
+              </div>
+              <textarea
+                value={lookupText}
+                onChange={e => setLookupText(e.target.value)}
+                rows={6}
+                placeholder={'M = 男\nF = 女'}
+                className="w-full px-3 py-2 font-mono text-xs border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input type="checkbox" checked={draft.keepUnmatched !== false} onChange={e => update({ keepUnmatched: e.target.checked })} className="w-4 h-4 rounded border-slate-300 text-indigo-600" />
+                對照表中沒有的值保留原值 (取消則留空)
+              </label>
+            </div>
+          )}
+
+          {draft.type === 'multiply' && (
+            <label className="flex items-center justify-between gap-3 text-sm text-slate-600">
+              倍數
+              <input
+                type="number"
+                value={draft.factor ?? ''}
+                onChange={e => update({ factor: e.target.value === '' ? undefined : Number(e.target.value) })}
+                className="w-40 px-3 py-1.5 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+          )}
+
+          {draft.type === 'regex' && (
+            <label className="flex flex-col gap-1 text-sm text-slate-600">
+              正規表示式
+              <input
+                type="text"
+                value={draft.pattern || ''}
+                onChange={e => update({ pattern: e.target.value })}
+                placeholder="例如 EMP-(\d+)"
+                className="px-3 py-1.5 font-mono text-xs border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+          )}
+
+          {draft.type === 'dateParse' && (
+            <label className="flex flex-col gap-1 text-sm text-slate-600">
+              日期格式
+              <input
+                type="text"
+                value={draft.dateFormat || ''}
+                onChange={e => update({ dateFormat: e.target.value })}
+                placeholder="例如 DD/MM/YYYY、YYYYMMDD、YYY/MM/DD (民國年)"
+                className="px-3 py-1.5 font-mono text-xs border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+          )}
+
+          {error ? (
+            <p className="text-xs text-red-600">{error}</p>
+          ) : sampleValues.length > 0 && (
+            <div>
+              <div className="text-xs font-bold text-slate-500 mb-1">預覽</div>
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                {sampleValues.map((v, idx) => (
+                  <div key={idx} className="grid grid-cols-[1fr_auto_1fr] items-center gap-2 px-3 py-1.5 text-xs">
+                    <span className="font-mono text-slate-500 truncate">{String(v)}</span>
+                    <ArrowRight size={12} className="text-slate-300" />
+                    <span className="font-mono font-bold text-slate-800 truncate">{String(applySourceTransform(v, current))}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          {transform && (
+            <button onClick={() => onSave(null)} className="px-4 py-2 border border-red-200 rounded-lg text-red-600 font-medium hover:bg-red-50 transition-colors">
+              移除轉換
+            </button>
+          )}
+          <button onClick={onCancel} className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+            取消
+          </button>
+          <button
+            onClick={() => onSave(current)}
+            disabled={!!error}
+            className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            套用轉換
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
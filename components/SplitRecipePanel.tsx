@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronDown, ChevronUp, ListChecks, EyeOff, Columns } from 'lucide-react';
+import { FieldDefinition, SplitRecipe } from '../types';
+import { createRecipe, describeRule } from '../utils/filterEngine';
+import { RuleBuilder } from './RuleBuilder';
+import { MaskingRulesEditor } from './MaskingRulesEditor';
+import { OutputColumnsEditor } from './OutputColumnsEditor';
+
+interface SplitRecipePanelProps {
+  recipes: SplitRecipe[];
+  fields: FieldDefinition[];
+  includeRemainder: boolean;
+  remainderName: string;
+  onChange: (recipes: SplitRecipe[]) => void;
+  onIncludeRemainderChange: (value: boolean) => void;
+  onRemainderNameChange: (value: string) => void;
+}
+
+export const SplitRecipePanel: React.FC<SplitRecipePanelProps> = ({
+  recipes,
+  fields,
+  includeRemainder,
+  remainderName,
+  onChange,
+  onIncludeRemainderChange,
+  onRemainderNameChange
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(recipes[0]?.id || null);
+
+  const updateRecipe = (id: string, patch: Partial<SplitRecipe>) => {
+    onChange(recipes.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const handleAdd = () => {
+    const recipe = createRecipe(recipes.length + 1, fields[0]?.key || '');
+    onChange([...recipes, recipe]);
+    setExpandedId(recipe.id);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <span className="text-sm font-bold text-purple-900 flex items-center gap-1">
+          <ListChecks size={16} /> 拆分方案 (一次產出多個檔案)
+        </span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input type="checkbox" checked={includeRemainder} onChange={e => onIncludeRemainderChange(e.target.checked)} className="w-4 h-4 rounded border-slate-300 text-purple-600" />
+            未符合任何方案的資料輸出為
+          </label>
+          <input
+            type="text"
+            value={remainderName}
+            disabled={!includeRemainder}
+            onChange={e => onRemainderNameChange(e.target.value)}
+            className="w-28 px-2 py-1 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none disabled:bg-slate-100 disabled:text-slate-400"
+          />
+          <button onClick={handleAdd} className="flex items-center gap-1 px-3 py-1 bg-purple-600 text-white rounded text-sm font-medium hover:bg-purple-700 shadow-sm">
+            <Plus size={14} /> 新增方案
+          </button>
+        </div>
+      </div>
+
+      {includeRemainder && recipes.length > 0 && (
+        <div className="flex items-center gap-1 text-xs text-slate-500">
+          <EyeOff size={12} /> 「{remainderName.trim() || '未分類'}」套用各方案中最嚴格的遮罩，且只包含每個方案都會匯出的欄位
+        </div>
+      )}
+
+      {recipes.length === 0 && (
+        <div className="text-sm text-slate-400 italic py-2">尚未建立任何拆分方案</div>
+      )}
+
+      <div className="flex flex-col gap-2 max-h-72 overflow-y-auto custom-scrollbar">
+        {recipes.map((recipe, idx) => {
+          const isExpanded = expandedId === recipe.id;
+          const summary = describeRule(recipe.rule, fields);
+          const maskingCount = recipe.masking?.length || 0;
+          const columnCount = recipe.columns?.length || 0;
+          return (
+            <div key={recipe.id} className="bg-white border border-slate-200 rounded-lg shadow-sm">
+              <div className="flex items-center gap-2 p-2 flex-wrap">
+                <span className="w-6 h-6 rounded-full bg-slate-800 text-white text-xs font-bold flex items-center justify-center shrink-0">{idx + 1}</span>
+                <input
+                  type="text"
+                  value={recipe.name}
+                  onChange={e => updateRecipe(recipe.id, { name: e.target.value })}
+                  placeholder="方案名稱"
+                  className="w-32 px-2 py-1 text-sm font-bold border border-transparent hover:border-slate-200 focus:border-purple-400 rounded outline-none"
+                />
+                <span className="text-xs text-slate-400">輸出為</span>
+                <input
+                  type="text"
+                  value={recipe.outputName}
+                  onChange={e => updateRecipe(recipe.id, { outputName: e.target.value })}
+                  placeholder="檔名 / 工作表名"
+                  className="w-36 px-2 py-1 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-purple-500 outline-none"
+                />
+                <span className="flex-1 min-w-[120px] text-xs text-slate-500 truncate" title={summary}>
+                  {summary || '無條件 (全部資料)'}
+                </span>
+                {columnCount > 0 && (
+                  <span className="flex items-center gap-1 text-xs text-purple-700 bg-purple-50 border border-purple-200 rounded px-1.5 py-0.5" title="此方案使用自訂的輸出欄位">
+                    <Columns size={12} /> {columnCount}
+                  </span>
+                )}
+                {maskingCount > 0 && (
+                  <span className="flex items-center gap-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-1.5 py-0.5" title="此方案的輸出會套用欄位遮罩">
+                    <EyeOff size={12} /> {maskingCount}
+                  </span>
+                )}
+                <button onClick={() => setExpandedId(isExpanded ? null : recipe.id)} className="flex items-center gap-1 text-xs text-purple-700 hover:text-purple-900 font-medium">
+                  編輯條件 {isExpanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+                </button>
+                <button onClick={() => onChange(recipes.filter(r => r.id !== recipe.id))} className="text-slate-300 hover:text-red-500" title="刪除方案">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {isExpanded && (
+                <div className="border-t border-slate-100 p-3 bg-slate-50/60">
+                  <RuleBuilder rule={recipe.rule} fields={fields} onChange={rule => updateRecipe(recipe.id, { rule })} />
+                  <div className="mt-3 pt-3 border-t border-slate-200">
+                    <div className="text-xs font-bold text-slate-600 mb-2">輸出欄位 (順序與標題)</div>
+                    <OutputColumnsEditor columns={recipe.columns || []} fields={fields} onChange={columns => updateRecipe(recipe.id, { columns })} />
+                  </div>
+                  <div className="mt-3 pt-3 border-t border-slate-200">
+                    <div className="text-xs font-bold text-slate-600 mb-2">欄位遮罩 (僅套用於此方案的輸出)</div>
+                    <MaskingRulesEditor rules={recipe.masking || []} fields={fields} onChange={masking => updateRecipe(recipe.id, { masking })} />
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
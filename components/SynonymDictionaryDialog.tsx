@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { X, BookOpen, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { HeaderSynonymGroup } from '../types';
+import { DEFAULT_HEADER_SYNONYMS } from '../utils/headerMatching';
+
+interface SynonymDictionaryDialogProps {
+  groups: HeaderSynonymGroup[];
+  onSave: (groups: HeaderSynonymGroup[]) => void;
+  onCancel: () => void;
+}
+
+// Synonyms are edited as one comma-separated line per group
+const splitSynonyms = (text: string) => text.split(/[,，、;\n]/).map(s => s.trim()).filter(Boolean);
+
+export const SynonymDictionaryDialog: React.FC<SynonymDictionaryDialogProps> = ({ groups, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(() => groups.map(g => ({ ...g, text: g.synonyms.join(', ') })));
+
+  const update = (id: string, patch: Partial<{ canonical: string; text: string }>) => {
+    setDraft(prev => prev.map(g => g.id === id ? { ...g, ...patch } : g));
+  };
+
+  const handleAdd = () => {
+    setDraft(prev => [...prev, { id: Math.random().toString(36).slice(2, 11), canonical: '', synonyms: [], text: '' }]);
+  };
+
+  const handleSave = () => {
+    onSave(draft
+      .filter(g => g.canonical.trim())
+      .map(g => ({ id: g.id, canonical: g.canonical.trim(), synonyms: splitSynonyms(g.text) })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onCancel}></div>
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 relative z-[2001] animate-in fade-in zoom-in-95 duration-200 flex flex-col max-h-[85vh]">
+        <button onClick={onCancel} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+        <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <BookOpen size={20} className="text-indigo-600" /> 標題同義詞字典
+        </h3>
+        <p className="text-slate-500 mb-4 text-sm">
+          同一列的標題會被視為同一個欄位，並以左側名稱作為目標欄位。比對時忽略大小寫、空白與底線。
+        </p>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {draft.map(g => (
+            <div key={g.id} className="flex items-center gap-2 p-2">
+              <input
+                type="text"
+                value={g.canonical}
+                onChange={e => update(g.id, { canonical: e.target.value })}
+                placeholder="目標欄位名稱"
+                className="w-36 shrink-0 px-2 py-1.5 text-sm font-bold border border-slate-200 rounded outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <input
+                type="text"
+                value={g.text}
+                onChange={e => update(g.id, { text: e.target.value })}
+                placeholder="同義標題，以逗號分隔"
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-slate-200 rounded outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button onClick={() => setDraft(prev => prev.filter(x => x.id !== g.id))} className="text-slate-300 hover:text-red-500" title="刪除">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-4 pt-3 text-sm">
+          <button onClick={handleAdd} className="flex items-center gap-1 text-indigo-600 font-medium hover:underline">
+            <Plus size={14} /> 新增同義詞組
+          </button>
+          <button
+            onClick={() => setDraft(DEFAULT_HEADER_SYNONYMS.map(g => ({ ...g, text: g.synonyms.join(', ') })))}
+            className="flex items-center gap-1 text-slate-500 hover:text-slate-700"
+          >
+            <RotateCcw size={14} /> 還原預設
+          </button>
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <button onClick={onCancel} className="flex-1 px-4 py-2 border border-slate-200 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+            取消
+          </button>
+          <button onClick={handleSave} className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 shadow-sm transition-colors">
+            儲存並重新偵測
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
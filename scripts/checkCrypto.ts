@@ -0,0 +1,97 @@
+// Known-answer checks for the hand-written crypto the browser has no synchronous API for:
+// the SHA-256 behind salted-hash masking and the ZipCrypto writer behind protected exports.
+// Run with `npm run check:crypto`; exits non-zero on the first mismatch.
+import { createHash } from 'node:crypto';
+import { sha256Hex } from '../utils/masking';
+import { createEncryptedZip } from '../utils/zipCrypto';
+
+let failures = 0;
+const check = (name: string, ok: boolean, detail = '') => {
+  if (!ok) failures++;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${name}${ok || !detail ? '' : ` — ${detail}`}`);
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array(hex.match(/../g)!.map(b => parseInt(b, 16)));
+
+// --- SHA-256 ---
+// FIPS 180-2 vectors, then every length across the one- and two-block padding boundaries against Node
+const SHA256_VECTORS: [string, string][] = [
+  ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+  ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+  ['abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'],
+];
+SHA256_VECTORS.forEach(([text, expected]) => {
+  const actual = sha256Hex(text);
+  check(`sha256 "${text.slice(0, 12)}${text.length > 12 ? '…' : ''}"`, actual === expected, actual);
+});
+
+const mismatchedLengths: number[] = [];
+for (let length = 0; length <= 130; length++) {
+  const text = '身分證A1'.repeat(length).slice(0, length);
+  if (sha256Hex(text) !== createHash('sha256').update(text, 'utf8').digest('hex')) mismatchedLengths.push(length);
+}
+check('sha256 matches node:crypto for lengths 0-130 (UTF-8)', mismatchedLengths.length === 0, `lengths ${mismatchedLengths.join(', ')}`);
+
+// --- ZipCrypto ---
+// Decryption per APPNOTE 6.1, checked first against an entry written by Info-ZIP (`zip -0 -P secret`)
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+const crc32Step = (crc: number, byte: number) => (CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8)) >>> 0;
+const crc32 = (data: Uint8Array) => (data.reduce(crc32Step, 0xFFFFFFFF) ^ 0xFFFFFFFF) >>> 0;
+
+const decrypt = (payload: Uint8Array, password: string) => {
+  let k0 = 0x12345678, k1 = 0x23456789, k2 = 0x34567890;
+  const update = (byte: number) => {
+    k0 = crc32Step(k0, byte);
+    k1 = (Math.imul((k1 + (k0 & 0xFF)) >>> 0, 134775813) + 1) >>> 0;
+    k2 = crc32Step(k2, k1 >>> 24);
+  };
+  new TextEncoder().encode(password).forEach(update);
+  return payload.map(byte => {
+    const temp = (k2 | 2) & 0xFFFF;
+    const plain = byte ^ ((Math.imul(temp, temp ^ 1) >>> 8) & 0xFF);
+    update(plain);
+    return plain;
+  });
+};
+
+const INFO_ZIP_PLAINTEXT = 'ZipCrypto known answer\n';
+const INFO_ZIP_PAYLOAD = 'b27c5d18fe82bd727f4f46906c95c4f4f3683a9ade99fbd55bc7208c53e462ffb0ccc3';
+const infoZipPlain = decrypt(fromHex(INFO_ZIP_PAYLOAD), 'secret').slice(12);
+check('zipcrypto decrypts the Info-ZIP entry', new TextDecoder().decode(infoZipPlain) === INFO_ZIP_PLAINTEXT, toHex(infoZipPlain));
+
+// Then our writer: read back every entry through the local headers and verify check byte and CRC
+const entries = [
+  { name: 'a.txt', data: new TextEncoder().encode(INFO_ZIP_PLAINTEXT) },
+  { name: '北區_薪資.xlsx', data: Uint8Array.from({ length: 5000 }, (_, i) => (i * 31) & 0xFF) },
+  { name: 'empty.csv', data: new Uint8Array(0) },
+];
+const password = '密碼 0123';
+const zip = createEncryptedZip(entries, password);
+const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+let offset = 0;
+entries.forEach(entry => {
+  const signature = view.getUint32(offset, true);
+  const crc = view.getUint32(offset + 14, true);
+  const size = view.getUint32(offset + 18, true);
+  const nameLength = view.getUint16(offset + 26, true);
+  const start = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+  const name = new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+  const plain = decrypt(zip.subarray(start, start + size), password);
+  const data = plain.slice(12);
+  check(
+    `zipcrypto round-trips ${entry.name}`,
+    signature === 0x04034B50 && name === entry.name && crc === crc32(entry.data) && plain[11] === crc >>> 24 && toHex(data) === toHex(entry.data),
+  );
+  offset = start + size;
+});
+check('zipcrypto end of central directory', view.getUint32(zip.length - 22, true) === 0x06054B50 && view.getUint16(zip.length - 12, true) === entries.length);
+
+if (failures > 0) {
+  console.log(`${failures} check(s) failed`);
+  process.exit(1);
+}
@@ -0,0 +1,71 @@
+// Checks that the remainder output of the split recipes never carries a column raw that some recipe
+// masks, drops or leaves out. Run with `npm run check:recipes`; exits non-zero on any leak.
+import { EmployeeRow, FieldDefinition, MaskingRule, SplitRecipe } from '../types';
+import { createCondition, createGroup, createRecipe, resolveOutputFields, runSplitRecipes } from '../utils/filterEngine';
+import { applyMaskingRules } from '../utils/masking';
+
+let failures = 0;
+const check = (name: string, ok: boolean, detail = '') => {
+  if (!ok) failures++;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${name}${ok || !detail ? '' : ` — ${detail}`}`);
+};
+
+const fields: FieldDefinition[] = [
+  { key: 'Emp_ID', label: '員工編號', type: 'string' },
+  { key: 'Entity', label: '公司別', type: 'string' },
+  { key: 'National_ID', label: '身分證字號', type: 'string' },
+  { key: 'Bank_Account', label: '銀行帳號', type: 'string' },
+  { key: 'Base_Salary', label: '本薪', type: 'currency' },
+  { key: 'Home_Address', label: '住址', type: 'string' },
+];
+
+const rows: EmployeeRow[] = ['TW_North', 'TW_South', 'HK', 'SG'].map((entity, i) => ({
+  id: `row-${i}`,
+  Emp_ID: `E00${i}`,
+  Entity: entity,
+  National_ID: `A12345678${i}`,
+  Bank_Account: `0123-4567-89${i}`,
+  Base_Salary: 45000 + i * 1000,
+  Home_Address: `台北市${i}號`,
+}));
+
+const rule = (field: string, operation: MaskingRule['operation'], extra: Partial<MaskingRule> = {}): MaskingRule =>
+  ({ id: `${field}-${operation}`, field, operation, ...extra });
+
+const recipe = (index: number, entity: string, patch: Partial<SplitRecipe>): SplitRecipe =>
+  ({ ...createRecipe(index), rule: createGroup('and', [createCondition('Entity', 'eq', entity)]), ...patch });
+
+const recipes: SplitRecipe[] = [
+  recipe(1, 'TW_North', { masking: [rule('National_ID', 'keepLast4'), rule('Base_Salary', 'bucket', { bucketSize: 1000 }), rule('Bank_Account', 'drop')] }),
+  recipe(2, 'TW_South', { masking: [rule('National_ID', 'hash', { salt: 'south' }), rule('Base_Salary', 'bucket', { bucketSize: 10000 })] }),
+  recipe(3, 'XX', { columns: ['Emp_ID', 'Entity', 'National_ID', 'Bank_Account', 'Base_Salary'].map(key => ({ key, label: '' })) }),
+];
+
+const visibleKeys = fields.map(f => f.key);
+const remainder = runSplitRecipes(rows, recipes, '未分類', visibleKeys).find(o => o.isRemainder)!;
+const exportedKeys = resolveOutputFields(remainder.columns, fields, fields).map(f => f.key);
+const exported = applyMaskingRules(remainder.rows, remainder.masking);
+
+check('remainder holds the unmatched rows', remainder.rows.map(r => r.Entity).join(',') === 'HK,SG');
+check('remainder drops a column any recipe drops', !exportedKeys.includes('Bank_Account'), exportedKeys.join(','));
+check('remainder leaves out a column a recipe does not export', !exportedKeys.includes('Home_Address'), exportedKeys.join(','));
+check('remainder keeps columns every recipe exports', ['Emp_ID', 'Entity', 'National_ID', 'Base_Salary'].every(k => exportedKeys.includes(k)), exportedKeys.join(','));
+
+const maskedKeys = new Set(recipes.flatMap(r => (r.masking || []).map(m => m.field)));
+remainder.rows.forEach((raw, i) => {
+  maskedKeys.forEach(key => {
+    if (!exportedKeys.includes(key)) return;
+    check(`${key} of ${raw.Emp_ID} is not exported raw`, String(exported[i][key]) !== String(raw[key]), String(exported[i][key]));
+  });
+});
+check('strictest mask wins per field', remainder.masking?.find(m => m.field === 'National_ID')?.operation === 'hash');
+check('widest bucket wins', remainder.masking?.find(m => m.field === 'Base_Salary')?.bucketSize === 10000);
+
+// A recipe without a column list follows the visible columns, so hidden columns stay out of the remainder too
+const narrowed = runSplitRecipes(rows, recipes.slice(0, 2), '未分類', ['Emp_ID', 'Entity']).find(o => o.isRemainder)!;
+check('remainder follows the default columns', narrowed.columns?.map(c => c.key).join(',') === 'Emp_ID,Entity');
+
+if (failures > 0) {
+  console.log(`${failures} check(s) failed`);
+  process.exit(1);
+}
@@ -3,11 +3,65 @@ export interface EmployeeRow {
   [key: string]: string | number | boolean;
 }
 
+// Text encodings offered when importing CSV/TSV files
+export type TextEncoding = 'utf-8' | 'big5' | 'gbk' | 'shift_jis';
+
+export type ExportFormat = 'xlsx' | 'csv' | 'tsv' | 'json' | 'ods' | 'html';
+
+// Text encodings the browser can write without a codepage table
+export type ExportEncoding = 'utf-8' | 'utf-16le';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  delimiter: string;        // csv only; tsv always uses a tab
+  encoding: ExportEncoding; // csv/tsv
+  includeBom: boolean;      // csv/tsv; lets Excel recognise UTF-8 text
+  prettyJson: boolean;
+  // Spreadsheet layout (xlsx; ods gets widths, autofilter and totals only)
+  boldHeader: boolean;
+  freezeHeader: boolean;
+  autoFilter: boolean;
+  columnWidths: boolean;    // On-screen widths where set, otherwise sized to content
+  totalsRow: boolean;       // Sums numeric columns; every format except JSON
+}
+
+// Per-output protection on the split and cleaner export paths; workbooks only support read-only sheets
+export type ProtectionMode = 'none' | 'zip' | 'sheet'; // 'sheet' = read-only worksheets, xlsx only
+
+export interface OutputProtection {
+  mode: ProtectionMode;
+  passwordSource: 'template' | 'mapping';
+  template: string;                    // e.g. "{name}-{random:6}"
+  passwordMap: Record<string, string>; // output name -> password, loaded from a mapping file
+}
+
+// One applied password, listed for the user after a protected export
+export interface PasswordManifestEntry {
+  output: string;
+  file: string;
+  password: string;
+}
+
+// Zero-based cell range, same shape as the xlsx library's Range
+export interface CellRange {
+  s: { r: number; c: number };
+  e: { r: number; c: number };
+}
+
 export interface SheetData {
   fileName: string;
   sheetName: string;
   headers: string[];
   rows: any[];
+  sourceGrid?: any[][];     // Every cell of the worksheet, anchored at A1
+  merges?: CellRange[];     // Merged ranges from the worksheet's !merges
+  cellRange?: string;       // User-selected A1 range to read, e.g. B4:K200
+  fillMergedCells?: boolean; // Copy each merged range's value into all of its cells
+  columnTypes?: Record<string, FieldType>; // Export only: header -> type
+  columnWidths?: Record<string, number>;   // Export only: header -> on-screen width in px
+  rawRows?: any[][];        // Unparsed cell grid, kept so the header rows can be changed later
+  headerRowIndex?: number;  // 0-based row of the (first) header row
+  headerRowCount?: number;  // Rows flattened into one header, e.g. 薪資 / 本薪 -> 薪資_本薪
 }
 
 export interface ColumnMapping {
@@ -15,20 +69,201 @@ export interface ColumnMapping {
   sourceHeaders: string[]; // Which headers from the uploaded files map to this target
 }
 
+// Drives cell typing and number formats on export; 'text-id' keeps identifiers such as 00123 as text
+export type FieldType = 'string' | 'number' | 'date' | 'currency' | 'percent' | 'text-id' | 'boolean';
+
 export interface FieldDefinition {
   key: string;
   label: string;
-  type: 'string' | 'number';
+  type: FieldType;
+  formula?: string; // Computed field: expression over other fields, e.g. Base_Salary * 12; has no source headers
+}
+
+// Expanded operators to support specific string operations
+export type FilterOperator = 
+  | 'eq' | 'neq' | 'gt' | 'lt' | 'gte' | 'lte' // Numeric & Basic
+  | 'contains' | 'not_contains' | 'starts_with' | 'ends_with'; // String specific
+
+export type FilterLogic = 'and' | 'or';
+
+export interface FilterCondition {
+  kind: 'condition';
+  id: string;
+  field: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface FilterGroup {
+  kind: 'group';
+  id: string;
+  logic: FilterLogic;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+// Redaction applied to one column before export
+export type MaskingOperation = 'keepLast4' | 'hash' | 'bucket' | 'drop';
+
+export interface MaskingRule {
+  id: string;
+  field: string;        // FieldDefinition key
+  operation: MaskingOperation;
+  salt?: string;        // hash
+  bucketSize?: number;  // bucket, e.g. 10000 -> "40k–50k"
+}
+
+// One exported column; an empty label keeps the field's own label
+export interface OutputColumn {
+  key: string;
+  label: string;
+}
+
+// A named split rule: rows matching `rule` are exported as `outputName` (file in ZIP or sheet in workbook)
+export interface SplitRecipe {
+  id: string;
+  name: string;
+  rule: FilterGroup;
+  outputName: string;
+  masking?: MaskingRule[];  // Applied to this recipe's output only
+  columns?: OutputColumn[]; // Exported columns in order; empty follows the table's visible columns
 }
 
-export type MergeMethod = 'vertical' | 'join';
-export type JoinType = 'outer' | 'inner' | 'left';
+export type MergeMethod = 'vertical' | 'join' | 'aggregate';
+
+// Per-field calculation in aggregate mode
+export type AggregationType = 'sum' | 'count' | 'avg' | 'min' | 'max' | 'distinct' | 'first';
+
+// left/right keep the keys of the first/last sheet; left-anti keeps keys found only in the first sheet;
+// full-anti keeps keys missing from at least one sheet
+export type JoinType = 'outer' | 'inner' | 'left' | 'right' | 'left-anti' | 'full-anti';
+
+// How rows sharing a key within the same sheet are resolved when removeDuplicates is on
+export type DuplicateStrategy = 'first' | 'last' | 'aggregate';
+
+// Applied to every join key component before matching
+export interface KeyNormalization {
+  caseFold: boolean;          // n001 = N001
+  fullWidthToHalf: boolean;   // Ｎ００１ = N001
+  stripLeadingZeros: boolean; // 00123 = 123
+  removePunctuation: boolean; // N-001 = N001
+  removeSpaces: boolean;      // N 001 = N001
+}
+
+export interface FuzzyMatchConfig {
+  enabled: boolean;
+  threshold: number; // Minimum similarity (0-1) for a proposed match
+}
+
+// A proposed pairing of two keys that never matched exactly
+export interface FuzzyKeyMatch {
+  key: string;       // Key that will be rewritten
+  matchKey: string;  // Canonical key it will join with
+  similarity: number;
+  keySheets: string[];
+  matchSheets: string[];
+}
+
+// Rewrites one source column's values at merge time, before the usual cleanup
+export type SourceTransformType = 'lookup' | 'multiply' | 'regex' | 'dateParse';
+
+export interface SourceTransform {
+  type: SourceTransformType;
+  lookup?: Record<string, string>; // lookup: source value -> output value, matched ignoring case and surrounding spaces
+  keepUnmatched?: boolean;         // lookup: values missing from the table pass through instead of becoming blank
+  factor?: number;                 // multiply, e.g. 1000 for salaries stored in thousands
+  pattern?: string;                // regex: keeps the first capture group, or the whole match
+  dateFormat?: string;             // dateParse: e.g. DD/MM/YYYY, YYYYMMDD; YYY is a ROC (民國) year
+}
+
+// How a target field is filled when several sheets supply different values for the same key
+export type ConflictPolicyType = 'first' | 'last' | 'longest' | 'max' | 'min' | 'latest' | 'concat' | 'flag';
+
+export interface ConflictPolicy {
+  type: ConflictPolicyType;
+  dateField?: string;  // 'latest': target field whose date decides which sheet wins
+  separator?: string;  // 'concat'
+}
 
 export interface MergeConfig {
   method: MergeMethod;
-  joinKey: string; // The target field key used as the primary key
+  joinKeys: string[]; // Ordered target field keys that together form the primary key
   joinType: JoinType;
-  removeDuplicates: boolean;
+  removeDuplicates: boolean; // When false every duplicate is kept (one output row per combination)
+  duplicateStrategy: DuplicateStrategy;
+  keyNormalization: KeyNormalization;
+  fuzzyMatch: FuzzyMatchConfig;
+  keyAliases: Record<string, string>; // Confirmed fuzzy matches: normalized key -> canonical key
+  requiredSheets: string[]; // "fileName::sheetName" of sheets every output key must appear in
+  conflictPolicies: Record<string, ConflictPolicy>; // Target field key -> policy; missing means 'first'
+  groupByFields: string[]; // Aggregate mode: target fields that form each group
+  aggregations: Record<string, AggregationType>; // Aggregate mode: target field key -> calculation; missing means 'first'
+  sourceTransforms: Record<string, SourceTransform>; // "fileName::sheetName::header" -> transform for that source column
+}
+
+// Header names that mean the same thing; `canonical` becomes the target field name
+export interface HeaderSynonymGroup {
+  id: string;
+  canonical: string;
+  synonyms: string[];
+}
+
+// A source header auto-detection placed under a field it isn't identical to
+export interface HeaderMatchProposal {
+  header: string;
+  headerIds: string[]; // Every "fileName::sheetName::header" carrying this header
+  fieldKey: string;
+  confidence: number;  // 0..1
+  reason: 'synonym' | 'similar';
+}
+
+// Suggestion to move a source column under another field because their values look alike
+export interface ColumnMatchSuggestion {
+  headerId: string;      // Column to move
+  fromFieldKey: string;
+  toFieldKey: string;
+  matchedHeaderId: string; // Column already under the target field that it resembles
+  score: number;         // 0..1
+  reasons: string[];
+}
+
+// Saved ColumnMapper setup. Sources are kept as header names, not header IDs, because the
+// uploaded file names change from one month to the next.
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  fields: FieldDefinition[];
+  sourceHeaders: Record<string, string[]>; // Target field key -> source header names
+  mergeConfig: MergeConfig;                // requiredSheets, keyAliases and sourceTransforms are file-specific and not kept
+}
+
+export interface DuplicateReport {
+  fileName: string;
+  sheetName: string;
+  duplicateKeys: number; // Keys that appeared more than once in this sheet
+  duplicateRows: number; // Rows beyond the first for those keys
+}
+
+// Different non-empty values supplied for the same target field by different sheets
+export interface FieldConflict {
+  field: string;
+  values: { sheet: string; value: any }[];
+}
+
+export interface ReconciliationEntry {
+  key: string;
+  presentIn: string[];  // "fileName / sheetName" labels
+  missingFrom: string[];
+  conflicts: FieldConflict[];
+  inOutput: boolean;    // Whether the join type kept this key
+}
+
+export interface MergeResult {
+  rows: EmployeeRow[];
+  duplicates: DuplicateReport[];
+  reconciliation: ReconciliationEntry[]; // Join mode only
 }
 
 export enum AppStep {
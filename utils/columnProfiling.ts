@@ -0,0 +1,187 @@
+import { ColumnMatchSuggestion, SheetData } from '../types';
+import { toNumberOrNull } from './excelUtils';
+
+const MAX_SAMPLE = 2000;
+export const MIN_SUGGESTION_SCORE = 0.6;
+
+export interface ColumnProfile {
+  headerId: string;
+  sheetId: string;
+  count: number;                    // Non-empty values sampled
+  values: Set<string>;              // Distinct trimmed, case-folded values
+  patterns: Map<string, number>;    // Shape -> share of values
+  numeric: { min: number; max: number } | null; // Only when nearly every value is a number
+}
+
+const charClass = (ch: string) => {
+  if (/\d/.test(ch)) return '9';
+  if (/[A-Z]/.test(ch)) return 'A';
+  if (/[a-z]/.test(ch)) return 'a';
+  if (/[\u4e00-\u9fff\u3400-\u4dbf]/.test(ch)) return '中';
+  return ch;
+};
+
+// "N001" -> "A9{3}", "陳大衛" -> "中{3}"; runs longer than 8 are collapsed so free text of
+// different lengths still shares a shape
+const valueShape = (value: string) => {
+  let shape = '';
+  let prev = '';
+  let run = 0;
+  const flush = () => {
+    if (!prev) return;
+    shape += run === 1 ? prev : `${prev}{${run > 8 ? '+' : run}}`;
+  };
+  for (const ch of value) {
+    const cls = charClass(ch);
+    if (cls === prev) {
+      run++;
+    } else {
+      flush();
+      prev = cls;
+      run = 1;
+    }
+  }
+  flush();
+  return shape;
+};
+
+// Shapes rendered as a regex-like hint for the UI: "A9{3}" -> "[A-Z]\d{3}"
+export const describeShape = (shape: string) => shape
+  .replace(/9/g, '\\d').replace(/A/g, '[A-Z]').replace(/a/g, '[a-z]').replace(/中/g, '[漢字]').replace(/\{\+\}/g, '+');
+
+export const profileColumn = (sheet: SheetData, header: string): ColumnProfile => {
+  const sheetId = `${sheet.fileName}::${sheet.sheetName}`;
+  const values = new Set<string>();
+  const shapeCounts = new Map<string, number>();
+  let count = 0;
+  let numericCount = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of sheet.rows) {
+    if (count >= MAX_SAMPLE) break;
+    const raw = row[header];
+    if (raw === undefined || raw === null || String(raw).trim() === '') continue;
+    const text = String(raw).trim();
+    count++;
+    values.add(text.toLowerCase());
+    const shape = valueShape(text);
+    shapeCounts.set(shape, (shapeCounts.get(shape) || 0) + 1);
+    // Identifiers with leading zeros are codes, not quantities
+    const num = /^0\d/.test(text) ? null : toNumberOrNull(raw);
+    if (num !== null) {
+      numericCount++;
+      min = Math.min(min, num);
+      max = Math.max(max, num);
+    }
+  }
+  const patterns = new Map<string, number>();
+  shapeCounts.forEach((n, shape) => patterns.set(shape, n / Math.max(count, 1)));
+  return {
+    headerId: `${sheetId}::${header}`,
+    sheetId,
+    count,
+    values,
+    patterns,
+    numeric: count > 0 && numericCount / count >= 0.95 ? { min, max } : null,
+  };
+};
+
+const dominantShape = (profile: ColumnProfile) => {
+  let best = '';
+  let share = 0;
+  profile.patterns.forEach((s, shape) => { if (s > share) { best = shape; share = s; } });
+  return { shape: best, share };
+};
+
+const formatNumber = (n: number) => Number.isInteger(n) ? n.toLocaleString('en-US') : n.toFixed(2);
+
+// Scores how likely two columns hold the same kind of data, with the reasons for the UI
+export const compareProfiles = (a: ColumnProfile, b: ColumnProfile): { score: number; reasons: string[] } => {
+  if (a.count === 0 || b.count === 0) return { score: 0, reasons: [] };
+  const reasons: string[] = [];
+
+  let shared = 0;
+  const [small, large] = a.values.size <= b.values.size ? [a.values, b.values] : [b.values, a.values];
+  small.forEach(v => { if (large.has(v)) shared++; });
+  const overlap = shared / Math.max(small.size, 1);
+
+  // Share of values whose shapes the two columns have in common
+  let formatSimilarity = 0;
+  a.patterns.forEach((share, shape) => { formatSimilarity += Math.min(share, b.patterns.get(shape) || 0); });
+
+  let rangeOverlap = 0;
+  if (a.numeric && b.numeric) {
+    const low = Math.max(a.numeric.min, b.numeric.min);
+    const high = Math.min(a.numeric.max, b.numeric.max);
+    const span = Math.max(a.numeric.max, b.numeric.max) - Math.min(a.numeric.min, b.numeric.min);
+    rangeOverlap = span === 0 ? 1 : Math.max(0, high - low) / span;
+  }
+
+  reasons.push(`共用 ${Math.round(overlap * 100)}% 的值`);
+  const shapeA = dominantShape(a);
+  const shapeB = dominantShape(b);
+  if (shapeA.shape === shapeB.shape && shapeA.share >= 0.6 && shapeB.share >= 0.6) {
+    reasons.push(`格式相同 (${describeShape(shapeA.shape)})`);
+  } else if (formatSimilarity > 0) {
+    reasons.push(`格式相似度 ${Math.round(formatSimilarity * 100)}%`);
+  }
+  if (a.numeric && b.numeric) {
+    reasons.push(`數值範圍重疊 ${Math.round(rangeOverlap * 100)}% (${formatNumber(a.numeric.min)}–${formatNumber(a.numeric.max)} / ${formatNumber(b.numeric.min)}–${formatNumber(b.numeric.max)})`);
+  }
+
+  // Shape alone is weaker evidence than shared values; plain numbers all look alike, so their
+  // shape only counts together with an overlapping range
+  const isNumeric = !!(a.numeric && b.numeric);
+  const formatScore = isNumeric ? formatSimilarity * 0.4 + rangeOverlap * 0.4 : formatSimilarity * 0.8;
+  return { score: Math.max(overlap, formatScore), reasons };
+};
+
+// For every source column, the field whose columns (from other sheets) it resembles most.
+// Only moves into a field that has no column from the same sheet and beats the column's
+// resemblance to its current field are suggested.
+export const suggestColumnMatches = (
+  sheets: SheetData[],
+  mapping: Record<string, string[]>
+): ColumnMatchSuggestion[] => {
+  const profiles = new Map<string, ColumnProfile>();
+  sheets.forEach(sheet => sheet.headers.forEach(h => {
+    const profile = profileColumn(sheet, h);
+    profiles.set(profile.headerId, profile);
+  }));
+
+  const fieldOf = new Map<string, string>();
+  Object.keys(mapping).forEach(fieldKey => mapping[fieldKey].forEach(id => fieldOf.set(id, fieldKey)));
+
+  const suggestions: ColumnMatchSuggestion[] = [];
+  profiles.forEach(profile => {
+    const currentField = fieldOf.get(profile.headerId);
+    let current = 0;
+    let best: ColumnMatchSuggestion | null = null;
+    Object.keys(mapping).forEach(fieldKey => {
+      const others = mapping[fieldKey].map(id => profiles.get(id)).filter((p): p is ColumnProfile => !!p && p.sheetId !== profile.sheetId);
+      if (others.length === 0) return;
+      if (fieldKey !== currentField && mapping[fieldKey].some(id => profiles.get(id)?.sheetId === profile.sheetId)) return;
+      others.forEach(other => {
+        const { score, reasons } = compareProfiles(profile, other);
+        if (fieldKey === currentField) {
+          current = Math.max(current, score);
+        } else if (!best || score > best.score) {
+          best = { headerId: profile.headerId, fromFieldKey: currentField || '', toFieldKey: fieldKey, matchedHeaderId: other.headerId, score, reasons };
+        }
+      });
+    });
+    const candidate = best as ColumnMatchSuggestion | null;
+    if (candidate && candidate.score >= MIN_SUGGESTION_SCORE && candidate.score > current) suggestions.push(candidate);
+  });
+
+  // A column and its match would otherwise both be suggested to move into each other's field
+  const seen = new Set<string>();
+  return suggestions
+    .sort((x, y) => y.score - x.score)
+    .filter(s => {
+      const pair = [s.headerId, s.matchedHeaderId].sort().join('|');
+      if (seen.has(pair)) return false;
+      seen.add(pair);
+      return true;
+    });
+};
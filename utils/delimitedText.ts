@@ -0,0 +1,151 @@
+import { SheetData, TextEncoding } from '../types';
+import { applySheetLayout } from './excelUtils';
+
+export const DELIMITED_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+
+export const isDelimitedFile = (fileName: string) =>
+  DELIMITED_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+export const ENCODING_OPTIONS: { value: TextEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'big5', label: 'Big5 (繁體中文)' },
+  { value: 'gbk', label: 'GBK (簡體中文)' },
+  { value: 'shift_jis', label: 'Shift-JIS (日文)' },
+];
+
+export const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: '逗號 (,)' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: '分號 (;)' },
+  { value: '|', label: '直線 (|)' },
+];
+
+const hasUtf8Bom = (bytes: Uint8Array) => bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF;
+
+// Characters expected in spreadsheet text: ASCII, CJK ideographs and punctuation, kana, full-width forms
+const isCommonChar = (code: number) =>
+  code < 0x80 ||
+  (code >= 0x3000 && code <= 0x30FF) ||
+  (code >= 0x4E00 && code <= 0x9FFF) ||
+  (code >= 0xFF00 && code <= 0xFFEF);
+
+// Frequent characters whose form differs between Traditional and Simplified Chinese. Big5 and GBK
+// both decode each other's bytes into valid ideographs, so only plausible wording tells them apart.
+const SCRIPT_HINTS: Partial<Record<TextEncoding, string>> = {
+  big5: '這們個來為國說時會對發後過麼學現當動還進樣開關點業將兩間問從與實體見數總電員書讓薪資號門區單給額勞險',
+  gbk: '这们个来为国说时会对发后过么学现当动还进样开关点业将两间问从与实体见数总电员书让薪资号门区单给额劳险',
+};
+
+const isKana = (code: number) => code >= 0x3040 && code <= 0x30FF;
+
+// Lower is better: undecodable bytes weigh far more than unusual characters, script hints
+// (and kana, for Shift-JIS) count in favour
+const scoreDecoding = (text: string, encoding: TextEncoding) => {
+  const hints = SCRIPT_HINTS[encoding] || '';
+  let score = 0;
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code === 0xFFFD) score += 10;
+    else if (!isCommonChar(code)) score += 1;
+    else if (hints.includes(ch) || (encoding === 'shift_jis' && isKana(code))) score -= 5;
+  }
+  return score;
+};
+
+// Valid UTF-8 wins outright; otherwise the legacy encoding that decodes most cleanly.
+// Ties favour Big5, the encoding of the legacy payroll exports.
+export const detectEncoding = (bytes: Uint8Array): { encoding: TextEncoding; hasBom: boolean } => {
+  if (hasUtf8Bom(bytes)) return { encoding: 'utf-8', hasBom: true };
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { encoding: 'utf-8', hasBom: false };
+  } catch {
+    // Not UTF-8, fall through to the legacy encodings
+  }
+  const sample = bytes.slice(0, 64 * 1024);
+  let best: TextEncoding = 'big5';
+  let bestScore = Infinity;
+  (['big5', 'gbk', 'shift_jis'] as TextEncoding[]).forEach(encoding => {
+    const score = scoreDecoding(new TextDecoder(encoding).decode(sample), encoding);
+    if (score < bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  });
+  return { encoding: best, hasBom: false };
+};
+
+// The UTF-8 BOM is stripped by TextDecoder
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding) => new TextDecoder(encoding).decode(bytes);
+
+// RFC 4180 parsing: quoted fields may contain delimiters, line breaks and "" escapes
+export const parseDelimitedText = (text: string, delimiter: string, maxRows = Infinity): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  while (i < text.length && rows.length < maxRows) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') inQuotes = false;
+      else field += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      endRow();
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) endRow();
+  return rows;
+};
+
+// Picks the delimiter that splits the first lines into the most consistent number of columns
+export const detectDelimiter = (text: string): string => {
+  const sample = text.slice(0, 32 * 1024);
+  let best = ',';
+  let bestScore = 0;
+  DELIMITER_OPTIONS.forEach(({ value }) => {
+    const rows = parseDelimitedText(sample, value, 20).filter(r => r.some(cell => cell.trim() !== ''));
+    const counts: Record<number, number> = {};
+    rows.forEach(r => { counts[r.length] = (counts[r.length] || 0) + 1; });
+    Object.entries(counts).forEach(([columns, lines]) => {
+      if (Number(columns) < 2) return;
+      const score = lines * 100 + Number(columns);
+      if (score > bestScore) {
+        best = value;
+        bestScore = score;
+      }
+    });
+  });
+  return best;
+};
+
+export const buildDelimitedSheet = (fileName: string, text: string, delimiter: string): SheetData => {
+  const grid = parseDelimitedText(text, delimiter);
+  const base: SheetData = { fileName, sheetName: 'Sheet1', headers: [], rows: [], sourceGrid: grid, merges: [] };
+  return applySheetLayout(base, {});
+};
@@ -1,7 +1,11 @@
 import * as XLSX from 'xlsx';
 import JSZip from 'jszip';
 import saveAs from 'file-saver';
-import { SheetData, EmployeeRow, MergeConfig } from '../types';
+import { SheetData, CellRange, EmployeeRow, ExportFormat, ExportOptions, FieldDefinition, FieldType, ProtectionMode, MergeConfig, MergeResult, ConflictPolicy, AggregationType, DuplicateReport, KeyNormalization, FuzzyKeyMatch, PasswordManifestEntry, ReconciliationEntry, FieldConflict, SourceTransform } from '../types';
+import { DEFAULT_KEY_NORMALIZATION, normalizeKeyValue, stringSimilarity } from './keyMatching';
+import { applyXlsxStyling } from './xlsxStyling';
+import { applySourceTransform } from './sourceTransforms';
+import { createEncryptedZip } from './zipCrypto';
 
 // Helper to convert Excel Serial Date to YYYY-MM-DD string
 const excelDateToJSDate = (serial: number): string => {
@@ -30,6 +34,121 @@ const makeHeadersUnique = (rawHeaders: string[]): string[] => {
   });
 };
 
+// Only the top of a sheet is scanned for a title block before the real header
+const HEADER_SCAN_ROWS = 20;
+
+const isFilledCell = (val: any) => val !== undefined && val !== null && String(val).trim() !== '';
+
+// The header is the first row that fills most of the table's width, skipping title blocks and blank
+// lines above it. Cell types don't count: a header of periods (2022, 2023, 2024) looks like data, and
+// a text-only test would pass over it and promote the first data row. A plain table gives row 0.
+export const detectHeaderRow = (matrix: any[][]): number => {
+  const scanned = matrix.slice(0, HEADER_SCAN_ROWS);
+  const width = Math.max(0, ...scanned.map(r => r.filter(isFilledCell).length));
+  const index = scanned.findIndex(row => {
+    const filled = row.filter(isFilledCell).length;
+    return filled > 0 && filled >= Math.min(2, width) && filled >= width / 2;
+  });
+  return index === -1 ? 0 : index;
+};
+
+// Joins stacked header rows into one name per column. Cells left empty by a merged parent
+// (e.g. 薪資 spanning 本薪/加給) inherit the value to their left.
+const flattenHeaderRows = (headerRows: any[][]): string[] => {
+  const width = Math.max(0, ...headerRows.map(r => r.length));
+  const filled = headerRows.map((row, level) => {
+    let carry = '';
+    return Array.from({ length: width }, (_, col) => {
+      const val = isFilledCell(row[col]) ? String(row[col]).trim() : '';
+      // Only parent rows span columns; the bottom row names each column on its own
+      if (val) carry = val;
+      return level < headerRows.length - 1 ? (val || carry) : val;
+    });
+  });
+  return Array.from({ length: width }, (_, col) => {
+    const parts: string[] = [];
+    filled.forEach(row => {
+      if (row[col] && parts[parts.length - 1] !== row[col]) parts.push(row[col]);
+    });
+    return parts.join('_');
+  });
+};
+
+// (Re)builds a sheet's headers and row objects from its raw cell grid
+export const applyHeaderRows = (sheet: SheetData, headerRowIndex: number, headerRowCount = 1): SheetData => {
+  const matrix = sheet.rawRows || [];
+  const headerRows = matrix.slice(headerRowIndex, headerRowIndex + headerRowCount);
+  const uniqueHeaders = makeHeadersUnique(flattenHeaderRows(headerRows));
+  const rows = matrix.slice(headerRowIndex + headerRowCount).map((rowArray) => {
+    const rowObject: any = {};
+    uniqueHeaders.forEach((header, index) => {
+      const val = rowArray[index];
+      if (val !== undefined && val !== null) {
+         rowObject[header] = val;
+      }
+    });
+    return rowObject;
+  });
+  return { ...sheet, headers: uniqueHeaders, rows, headerRowIndex, headerRowCount };
+};
+
+const fillMergedRanges = (grid: any[][], merges: CellRange[]): any[][] => {
+  const filled = grid.map(row => [...row]);
+  merges.forEach(({ s, e }) => {
+    const val = filled[s.r]?.[s.c];
+    if (val === undefined || val === null) return;
+    for (let r = s.r; r <= e.r; r++) {
+      if (!filled[r]) filled[r] = [];
+      for (let c = s.c; c <= e.c; c++) filled[r][c] = val;
+    }
+  });
+  return filled;
+};
+
+// Drops the empty columns left of and right of the table (e.g. a table starting at column C)
+const trimEmptyColumns = (grid: any[][]): any[][] => {
+  let first = Infinity;
+  let last = -1;
+  grid.forEach(row => row.forEach((val, c) => {
+    if (!isFilledCell(val)) return;
+    first = Math.min(first, c);
+    last = Math.max(last, c);
+  }));
+  if (last === -1) return grid;
+  return grid.map(row => row.slice(first, last + 1));
+};
+
+// Parses an A1-style range such as "B4:K200"; returns null when the text is not a valid range
+export const parseCellRange = (text: string): CellRange | null => {
+  const trimmed = text.trim().toUpperCase();
+  if (!/^[A-Z]{1,3}\d+:[A-Z]{1,3}\d+$/.test(trimmed)) return null;
+  const range = XLSX.utils.decode_range(trimmed);
+  if (range.s.r > range.e.r || range.s.c > range.e.c) return null;
+  return range;
+};
+
+// Rebuilds a sheet's working grid (merged cells, selected range). A header row already chosen is
+// kept at the same worksheet row while it stays inside the range; otherwise it is re-detected.
+export const applySheetLayout = (sheet: SheetData, layout: { cellRange?: string; fillMergedCells?: boolean }): SheetData => {
+  const { cellRange = '', fillMergedCells = false } = layout;
+  let grid = sheet.sourceGrid || [];
+  if (fillMergedCells && sheet.merges?.length) grid = fillMergedRanges(grid, sheet.merges);
+  const range = cellRange ? parseCellRange(cellRange) : null;
+  if (range) {
+    grid = grid.slice(range.s.r, range.e.r + 1).map(row => Array.from({ length: range.e.c - range.s.c + 1 }, (_, i) => row[range.s.c + i]));
+  } else {
+    grid = trimEmptyColumns(grid);
+  }
+  const updated: SheetData = { ...sheet, cellRange: range ? cellRange.trim().toUpperCase() : undefined, fillMergedCells, rawRows: grid };
+  let headerRowIndex = detectHeaderRow(grid);
+  if (sheet.headerRowIndex !== undefined) {
+    const previousStart = (sheet.cellRange && parseCellRange(sheet.cellRange)?.s.r) || 0;
+    const kept = sheet.headerRowIndex + previousStart - (range?.s.r || 0);
+    if (kept >= 0 && kept < grid.length) headerRowIndex = kept;
+  }
+  return applyHeaderRows(updated, headerRowIndex, sheet.headerRowCount ?? 1);
+};
+
 export const readExcelFiles = async (files: File[]): Promise<SheetData[]> => {
   const results: SheetData[] = [];
   for (const file of files) {
@@ -37,26 +156,14 @@ export const readExcelFiles = async (files: File[]): Promise<SheetData[]> => {
     const workbook = XLSX.read(data, { type: 'array', cellDates: false });
     workbook.SheetNames.forEach((sheetName) => {
       const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1 });
+      if (!worksheet['!ref']) return;
+      // Read from A1 so merge coordinates line up with the grid
+      const end = XLSX.utils.decode_range(worksheet['!ref']).e;
+      const jsonData = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, range: { s: { r: 0, c: 0 }, e: end } });
       if (jsonData.length > 0) {
-        const rawHeaders = jsonData[0] as string[];
-        const uniqueHeaders = makeHeadersUnique(rawHeaders);
-        const rows = jsonData.slice(1).map((rowArray) => {
-          const rowObject: any = {};
-          uniqueHeaders.forEach((header, index) => {
-            const val = rowArray[index];
-            if (val !== undefined && val !== null) {
-               rowObject[header] = val;
-            }
-          });
-          return rowObject;
-        });
-        results.push({
-          fileName: file.name,
-          sheetName: sheetName,
-          headers: uniqueHeaders,
-          rows: rows,
-        });
+        const base: SheetData = { fileName: file.name, sheetName, headers: [], rows: [], sourceGrid: jsonData, merges: worksheet['!merges'] || [] };
+        // Merged-cell fill is opt-in: filling a title merged across the top row would make it look like the header
+        results.push(applySheetLayout(base, {}));
       }
     });
   }
@@ -70,9 +177,12 @@ const cleanAndFormatValue = (val: any): any => {
     }
     if (typeof val === 'string') {
         const trimmed = val.trim();
+        // Leading zeros mark an identifier (00123), not a number
+        if (/^0\d/.test(trimmed)) return trimmed;
         if (/^[$€£¥]?\s*-?[\d,]+(\.\d+)?%?$/.test(trimmed)) {
             const cleanNum = parseFloat(trimmed.replace(/[^0-9.-]/g, ''));
-            if (!isNaN(cleanNum)) return cleanNum;
+            // "12%" becomes the ratio 0.12, the value a percent-formatted spreadsheet cell already reads as
+            if (!isNaN(cleanNum)) return trimmed.endsWith('%') ? cleanNum / 100 : cleanNum;
         }
         return trimmed;
     }
@@ -90,7 +200,7 @@ const parseMappingId = (mappingId: string) => {
     };
 };
 
-const stackData = (sheets: SheetData[], mappings: Record<string, string[]>): EmployeeRow[] => {
+const stackData = (sheets: SheetData[], mappings: Record<string, string[]>, transforms: Record<string, SourceTransform> = {}): EmployeeRow[] => {
     let merged: EmployeeRow[] = [];
     sheets.forEach((sheet) => {
       const sheetRows = sheet.rows.map((row, index) => {
@@ -106,7 +216,7 @@ const stackData = (sheets: SheetData[], mappings: Record<string, string[]>): Emp
                 if (Object.prototype.hasOwnProperty.call(row, targetHeader)) {
                   const rawVal = row[targetHeader];
                   if (rawVal !== undefined && rawVal !== null && rawVal !== '') {
-                    val = rawVal;
+                    val = applySourceTransform(rawVal, transforms[mId]);
                     break; 
                   }
                 }
@@ -123,99 +233,696 @@ const stackData = (sheets: SheetData[], mappings: Record<string, string[]>): Emp
     return merged;
 };
 
-const joinData = (sheets: SheetData[], mappings: Record<string, string[]>, config: MergeConfig): EmployeeRow[] => {
-    const { joinKey, joinType } = config;
-    const keyMappingIds = mappings[joinKey] || [];
-    const keyMap = new Map<string, Record<number, any>>();
+// Joins composite key parts; a control character can't appear in a cell value, so ["A | B", "C"]
+// and ["A", "B | C"] stay distinct. formatCompositeKey gives the readable form for display.
+const COMPOSITE_KEY_SEPARATOR = '\u0000';
+
+export const formatCompositeKey = (key: string) => key.split(COMPOSITE_KEY_SEPARATOR).join(' | ');
+
+export const getSheetId = (sheet: SheetData) => `${sheet.fileName}::${sheet.sheetName}`;
+const getSheetLabel = (sheet: SheetData) => `${sheet.fileName} / ${sheet.sheetName}`;
+
+// Finds the first non-empty value for one key component using its mapping tags for this sheet
+const getKeyComponent = (row: any, sheet: SheetData, componentMappingIds: string[], normalization: KeyNormalization, transforms: Record<string, SourceTransform>): string | null => {
+    for (const mId of componentMappingIds) {
+        const { fileName, sheetName, header } = parseMappingId(mId);
+        if (fileName === sheet.fileName && sheetName === sheet.sheetName) {
+            if (row[header] !== undefined && row[header] !== null && String(row[header]).trim() !== '') {
+                const normalized = normalizeKeyValue(String(applySourceTransform(row[header], transforms[mId])), normalization);
+                if (normalized !== '') return normalized;
+            }
+        }
+    }
+    return null;
+};
+
+// Builds the (possibly composite) key for a row; rows missing any component have no key
+const getRowKey = (row: any, sheet: SheetData, keyMappingIds: string[][], config: MergeConfig): string | null => {
+    const normalization = config.keyNormalization || DEFAULT_KEY_NORMALIZATION;
+    const parts: string[] = [];
+    for (const componentIds of keyMappingIds) {
+        const part = getKeyComponent(row, sheet, componentIds, normalization, config.sourceTransforms || {});
+        if (part === null) return null;
+        parts.push(part);
+    }
+    if (parts.length === 0) return null;
+    const key = parts.join(COMPOSITE_KEY_SEPARATOR);
+    return config.keyAliases?.[key] ?? key;
+};
+
+// Collapses several rows sharing a key, going by the type of the target field each column maps to:
+// number and currency fields are summed, text fields join their distinct values, and everything else
+// (dates, IDs, percentages, unmapped columns) keeps the first value
+const aggregateDuplicateRows = (rows: any[], sheet: SheetData, mappings: Record<string, string[]>, fieldTypes: Record<string, FieldType>): any => {
+    const headerTypes: Record<string, FieldType | undefined> = {};
+    Object.entries(mappings).forEach(([targetField, ids]) => ids.forEach(mId => {
+        const { fileName, sheetName, header } = parseMappingId(mId);
+        if (fileName === sheet.fileName && sheetName === sheet.sheetName && !headerTypes[header]) headerTypes[header] = fieldTypes[targetField];
+    }));
+
+    const merged: any = { ...rows[0] };
+    const headers = new Set<string>();
+    rows.forEach(r => Object.keys(r).forEach(h => headers.add(h)));
+    headers.forEach(h => {
+        if (h.startsWith('_src')) return;
+        const values = rows.map(r => r[h]).filter(v => v !== undefined && v !== null && v !== '');
+        if (values.length === 0) return;
+        const distinct = Array.from(new Set(values.map(v => String(v).trim())));
+        const type = headerTypes[h];
+        const numbers = values.map(toNumberOrNull);
+        if (distinct.length === 1) {
+            merged[h] = values[0];
+        } else if ((type === 'number' || type === 'currency') && numbers.every(n => n !== null)) {
+            merged[h] = (numbers as number[]).reduce((sum, n) => sum + n, 0);
+        } else if (type === 'string') {
+            merged[h] = distinct.join(', ');
+        } else {
+            merged[h] = values[0];
+        }
+    });
+    return merged;
+};
+
+// Expands per-sheet candidate lists into every combination (used when duplicates are kept)
+const combineSheetRows = (candidates: Record<number, any[]>): Record<number, any>[] => {
+    let combos: Record<number, any>[] = [{}];
+    Object.entries(candidates).forEach(([sheetIndex, rows]) => {
+        const next: Record<number, any>[] = [];
+        combos.forEach(combo => rows.forEach(row => next.push({ ...combo, [sheetIndex]: row })));
+        combos = next;
+    });
+    return combos;
+};
+
+// First non-empty value a sheet row supplies for a target field, with its source transform applied
+const getSheetFieldValue = (sheetRow: any, sheet: SheetData, sourceMappingIds: string[], transforms: Record<string, SourceTransform>): any => {
+    for (const mId of sourceMappingIds) {
+        const { fileName, sheetName, header } = parseMappingId(mId);
+        if (fileName === sheet.fileName && sheetName === sheet.sheetName) {
+            if (sheetRow[header] !== undefined && sheetRow[header] !== null && sheetRow[header] !== '') return applySourceTransform(sheetRow[header], transforms[mId]);
+        }
+    }
+    return '';
+};
+
+export const toNumberOrNull = (val: any): number | null => {
+    if (typeof val === 'number') return val;
+    const cleaned = String(val).trim().replace(/^([$€£¥])\s*/, '');
+    // Commas only as thousands grouping, so joined values such as "1000,2000" stay text
+    if (!/^-?(\d+|\d{1,3}(,\d{3})+)(\.\d+)?$/.test(cleaned)) return null;
+    return parseFloat(cleaned.replace(/,/g, ''));
+};
+
+const toTimestampOrNull = (val: any): number | null => {
+    if (val === '' || val === undefined || val === null) return null;
+    if (typeof val === 'number') return isPotentialExcelDate(val) ? (val - 25569) * 86400 * 1000 : null;
+    // Y/M/D text is read as UTC, like Excel serials; Date.parse would take 2024/1/5 as local time
+    const match = String(val).trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (match) {
+        const [, y, m, d, hh = '0', mm = '0', ss = '0'] = match;
+        return Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+    }
+    const text = String(val).trim();
+    const time = Date.parse(text);
+    if (isNaN(time)) return null;
+    // Other formats without an explicit zone are parsed as local time; keep their wall-clock reading
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) return time;
+    const d = new Date(time);
+    return Date.UTC(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds());
+};
+
+// Row metadata marking a field whose sources disagreed under the 'flag' policy
+export const getConflictFlagKey = (fieldKey: string) => `_conflict::${fieldKey}`;
+
+interface FieldCandidate {
+    value: any;
+    date?: any; // Value of the policy's date field from the same sheet row
+}
+
+// Picks the value for one target field from the per-sheet candidates (already in sheet priority order).
+// `text` marks a value built from already-cleaned parts that must not be re-read as a number.
+const resolveFieldValue = (candidates: FieldCandidate[], policy?: ConflictPolicy): { value: any; conflict: boolean; text?: boolean } => {
+    if (candidates.length === 0) return { value: '', conflict: false };
+    const distinct = Array.from(new Set(candidates.map(c => String(cleanAndFormatValue(c.value)))));
+    const first = candidates[0].value;
+    switch (policy?.type) {
+        case 'last':
+            return { value: candidates[candidates.length - 1].value, conflict: false };
+        case 'longest':
+            return { value: candidates.reduce((best, c) => String(c.value).trim().length > String(best.value).trim().length ? c : best).value, conflict: false };
+        case 'max':
+        case 'min': {
+            const numeric = candidates.filter(c => toNumberOrNull(c.value) !== null);
+            if (numeric.length === 0) return { value: first, conflict: false };
+            const pick = numeric.reduce((best, c) => {
+                const diff = toNumberOrNull(c.value)! - toNumberOrNull(best.value)!;
+                return (policy.type === 'max' ? diff > 0 : diff < 0) ? c : best;
+            });
+            return { value: pick.value, conflict: false };
+        }
+        case 'latest': {
+            const dated = candidates.filter(c => toTimestampOrNull(c.date) !== null);
+            if (dated.length === 0) return { value: first, conflict: false };
+            return { value: dated.reduce((best, c) => toTimestampOrNull(c.date)! > toTimestampOrNull(best.date)! ? c : best).value, conflict: false };
+        }
+        case 'concat':
+            // "1000,2000" would otherwise be cleaned into the number 10002000
+            return distinct.length > 1
+                ? { value: distinct.join(policy.separator ?? ', '), conflict: false, text: true }
+                : { value: first, conflict: false };
+        case 'flag':
+            return { value: first, conflict: distinct.length > 1 };
+        default:
+            return { value: first, conflict: false };
+    }
+};
+
+const joinData = (sheets: SheetData[], mappings: Record<string, string[]>, config: MergeConfig, fieldTypes: Record<string, FieldType>): MergeResult => {
+    const { joinKeys, joinType, removeDuplicates, duplicateStrategy, requiredSheets = [], conflictPolicies = {}, sourceTransforms = {} } = config;
+    const keyMappingIds = joinKeys.map(key => mappings[key] || []);
+    const keyMap = new Map<string, Record<number, any[]>>();
     const allKeySet = new Set<string>();
 
     sheets.forEach((sheet, sheetIndex) => {
         sheet.rows.forEach(row => {
-            let keyValue: string | null = null;
-            for (const mId of keyMappingIds) {
-                const { fileName, sheetName, header } = parseMappingId(mId);
-                if (fileName === sheet.fileName && sheetName === sheet.sheetName) {
-                    if (row[header] !== undefined && row[header] !== null && String(row[header]).trim() !== '') {
-                        keyValue = String(row[header]).trim();
-                        break;
-                    }
-                }
-            }
+            const keyValue = getRowKey(row, sheet, keyMappingIds, config);
             if (keyValue) {
                 if (!keyMap.has(keyValue)) {
                     keyMap.set(keyValue, {});
                     allKeySet.add(keyValue);
                 }
                 const existing = keyMap.get(keyValue)!;
-                if (!existing[sheetIndex]) {
-                    existing[sheetIndex] = { ...row, _srcFile: sheet.fileName, _srcSheet: sheet.sheetName };
+                if (!existing[sheetIndex]) existing[sheetIndex] = [];
+                existing[sheetIndex].push({ ...row, _srcFile: sheet.fileName, _srcSheet: sheet.sheetName });
+            }
+        });
+    });
+
+    // Duplicate report + resolution per sheet
+    const duplicates: DuplicateReport[] = sheets.map(sheet => ({
+        fileName: sheet.fileName, sheetName: sheet.sheetName, duplicateKeys: 0, duplicateRows: 0
+    }));
+    keyMap.forEach(entry => {
+        Object.entries(entry).forEach(([idx, rows]) => {
+            const sheetIndex = Number(idx);
+            if (rows.length > 1) {
+                duplicates[sheetIndex].duplicateKeys++;
+                duplicates[sheetIndex].duplicateRows += rows.length - 1;
+                if (removeDuplicates) {
+                    if (duplicateStrategy === 'last') entry[sheetIndex] = [rows[rows.length - 1]];
+                    else if (duplicateStrategy === 'aggregate') entry[sheetIndex] = [aggregateDuplicateRows(rows, sheets[sheetIndex], mappings, fieldTypes)];
+                    else entry[sheetIndex] = [rows[0]];
                 }
             }
         });
     });
 
+    // Keys in the order they appear in one sheet (drives left/right joins)
+    const keysOfSheet = (sheetIndex: number) => {
+        const sheet = sheets[sheetIndex];
+        const keys: string[] = [];
+        sheet?.rows.forEach(row => {
+            const keyValue = getRowKey(row, sheet, keyMappingIds, config);
+            if (keyValue) keys.push(keyValue);
+        });
+        return Array.from(new Set(keys));
+    };
+    const presentCount = (key: string) => Object.keys(keyMap.get(key) || {}).length;
+
     let finalKeys: string[] = [];
     if (joinType === 'outer') {
         finalKeys = Array.from(allKeySet);
     } else if (joinType === 'left') {
-        sheets[0]?.rows.forEach(row => {
-             for (const mId of keyMappingIds) {
-                const { fileName, sheetName, header } = parseMappingId(mId);
-                if (fileName === sheets[0].fileName && sheetName === sheets[0].sheetName && row[header]) {
-                    finalKeys.push(String(row[header]).trim());
-                    break;
-                }
-             }
-        });
-        finalKeys = Array.from(new Set(finalKeys));
+        finalKeys = keysOfSheet(0);
+    } else if (joinType === 'right') {
+        finalKeys = keysOfSheet(sheets.length - 1);
     } else if (joinType === 'inner') {
-        finalKeys = Array.from(allKeySet).filter(key => {
-            const entry = keyMap.get(key);
-            return entry && Object.keys(entry).length === sheets.length;
+        finalKeys = Array.from(allKeySet).filter(key => presentCount(key) === sheets.length);
+    } else if (joinType === 'left-anti') {
+        finalKeys = keysOfSheet(0).filter(key => presentCount(key) === 1);
+    } else if (joinType === 'full-anti') {
+        finalKeys = Array.from(allKeySet).filter(key => presentCount(key) < sheets.length);
+    }
+
+    // Required sheets narrow any join type: the key must exist in each of them
+    const requiredIndexes = sheets.map((s, idx) => requiredSheets.includes(getSheetId(s)) ? idx : -1).filter(idx => idx !== -1);
+    if (requiredIndexes.length > 0) {
+        finalKeys = finalKeys.filter(key => {
+            const entry = keyMap.get(key) || {};
+            return requiredIndexes.every(idx => entry[idx]);
         });
     }
 
-    const result: EmployeeRow[] = finalKeys.map((k, idx) => {
-        const newRow: EmployeeRow = { id: `joined-${k}-${idx}` };
-        const entry = keyMap.get(k) || {};
+    // Reconciliation: per key, which sheets had it and which target fields disagree between them
+    const outputKeys = new Set(finalKeys);
+    const reconciliation: ReconciliationEntry[] = Array.from(allKeySet).map(key => {
+        const entry = keyMap.get(key) || {};
+        const conflicts: FieldConflict[] = [];
         Object.entries(mappings).forEach(([targetField, sourceMappingIds]) => {
-            let val: any = '';
-            for (let i = 0; i < sheets.length; i++) {
-                const sheetRow = entry[i];
-                if (sheetRow) {
-                    const currentSheet = sheets[i];
-                    for (const mId of sourceMappingIds) {
-                        const { fileName, sheetName, header } = parseMappingId(mId);
-                        if (fileName === currentSheet.fileName && sheetName === currentSheet.sheetName) {
-                            if (sheetRow[header] !== undefined && sheetRow[header] !== null && sheetRow[header] !== '') {
-                                 val = sheetRow[header];
-                                 break;
-                            }
-                        }
-                    }
-                }
-                if (val !== '') break;
+            // Key fields already matched after normalization; spelling differences such as a001 vs A001 aren't conflicts
+            if (joinKeys.includes(targetField)) return;
+            const values: { sheet: string; value: any }[] = [];
+            sheets.forEach((sheet, i) => {
+                const sheetRow = entry[i]?.[0];
+                if (!sheetRow) return;
+                const cleaned = cleanAndFormatValue(getSheetFieldValue(sheetRow, sheet, sourceMappingIds, sourceTransforms));
+                if (cleaned !== '') values.push({ sheet: getSheetLabel(sheet), value: cleaned });
+            });
+            if (new Set(values.map(v => String(v.value))).size > 1) conflicts.push({ field: targetField, values });
+        });
+        return {
+            key: formatCompositeKey(key),
+            presentIn: sheets.filter((_, i) => entry[i]).map(getSheetLabel),
+            missingFrom: sheets.filter((_, i) => !entry[i]).map(getSheetLabel),
+            conflicts,
+            inOutput: outputKeys.has(key),
+        };
+    });
+
+    const result: EmployeeRow[] = [];
+    finalKeys.forEach(k => {
+        const combos = combineSheetRows(keyMap.get(k) || {});
+        combos.forEach(entry => {
+            const newRow: EmployeeRow = { id: `joined-${formatCompositeKey(k)}-${result.length}` };
+            Object.entries(mappings).forEach(([targetField, sourceMappingIds]) => {
+                const policy = conflictPolicies[targetField];
+                const candidates: FieldCandidate[] = [];
+                sheets.forEach((sheet, i) => {
+                    const sheetRow = entry[i];
+                    if (!sheetRow) return;
+                    const value = getSheetFieldValue(sheetRow, sheet, sourceMappingIds, sourceTransforms);
+                    if (value === '') return;
+                    const date = policy?.type === 'latest' && policy.dateField
+                        ? getSheetFieldValue(sheetRow, sheet, mappings[policy.dateField] || [], sourceTransforms)
+                        : undefined;
+                    candidates.push({ value, date });
+                });
+                const { value, conflict, text } = resolveFieldValue(candidates, policy);
+                if (conflict) newRow[getConflictFlagKey(targetField)] = true;
+                newRow[targetField] = text ? value : cleanAndFormatValue(value);
+            });
+            const firstSource = Object.values(entry)[0];
+            newRow['_sourceFile'] = firstSource ? (firstSource as any)._srcFile : 'Joined';
+            newRow['_sourceSheet'] = firstSource ? (firstSource as any)._srcSheet : 'Joined';
+            result.push(newRow);
+        });
+    });
+    return { rows: result, duplicates, reconciliation };
+};
+
+// Limits the pairwise comparison so very large unmatched sets stay responsive
+const MAX_FUZZY_CANDIDATES = 2000;
+
+// Proposes pairs of keys that never matched exactly but are similar enough to be the same entity.
+// Only keys that never co-occur in a sheet are paired; the key from the higher-priority sheet is canonical.
+export const findFuzzyKeyMatches = (sheets: SheetData[], mappings: Record<string, string[]>, config: MergeConfig): FuzzyKeyMatch[] => {
+    const keyMappingIds = config.joinKeys.map(key => mappings[key] || []);
+    const baseConfig: MergeConfig = { ...config, keyAliases: {} };
+    const keySheets = new Map<string, Set<number>>();
+    sheets.forEach((sheet, sheetIndex) => {
+        sheet.rows.forEach(row => {
+            const keyValue = getRowKey(row, sheet, keyMappingIds, baseConfig);
+            if (!keyValue) return;
+            if (!keySheets.has(keyValue)) keySheets.set(keyValue, new Set());
+            keySheets.get(keyValue)!.add(sheetIndex);
+        });
+    });
+
+    const unmatched = Array.from(keySheets.entries())
+        .filter(([, present]) => present.size < sheets.length)
+        .slice(0, MAX_FUZZY_CANDIDATES);
+    const sheetLabel = (idx: number) => getSheetLabel(sheets[idx]);
+    const used = new Set<string>();
+    const matches: FuzzyKeyMatch[] = [];
+
+    for (const [key, present] of unmatched) {
+        if (used.has(key)) continue;
+        let bestKey: string | null = null;
+        let bestPresent = new Set<number>();
+        let bestSimilarity = 0;
+        for (const [other, otherPresent] of unmatched) {
+            if (other === key || used.has(other)) continue;
+            if (Array.from(present).some(idx => otherPresent.has(idx))) continue;
+            const similarity = stringSimilarity(key, other);
+            if (similarity >= config.fuzzyMatch.threshold && similarity > bestSimilarity) {
+                bestKey = other;
+                bestPresent = otherPresent;
+                bestSimilarity = similarity;
             }
-            newRow[targetField] = cleanAndFormatValue(val);
+        }
+        if (bestKey === null) continue;
+        used.add(key);
+        used.add(bestKey);
+        const keyIsCanonical = Math.min(...Array.from(present)) <= Math.min(...Array.from(bestPresent));
+        matches.push({
+            key: keyIsCanonical ? bestKey : key,
+            matchKey: keyIsCanonical ? key : bestKey,
+            similarity: bestSimilarity,
+            keySheets: Array.from(keyIsCanonical ? bestPresent : present).map(sheetLabel),
+            matchSheets: Array.from(keyIsCanonical ? present : bestPresent).map(sheetLabel),
+        });
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity);
+};
+
+const aggregateValues = (values: any[], type: AggregationType): any => {
+    const present = values.filter(v => v !== undefined && v !== null && v !== '');
+    if (type === 'count') return present.length;
+    if (type === 'distinct') return new Set(present.map(v => String(v))).size;
+    if (type === 'first') return present.length > 0 ? present[0] : '';
+    const numbers = present.map(toNumberOrNull).filter((n): n is number => n !== null);
+    if (numbers.length === 0) return type === 'sum' ? 0 : '';
+    if (type === 'sum') return numbers.reduce((sum, n) => sum + n, 0);
+    if (type === 'avg') return Math.round(numbers.reduce((sum, n) => sum + n, 0) / numbers.length * 100) / 100;
+    return type === 'max' ? Math.max(...numbers) : Math.min(...numbers);
+};
+
+// Stacks every sheet, then collapses rows sharing the group-by values into one summary row each
+const aggregateData = (sheets: SheetData[], mappings: Record<string, string[]>, config: MergeConfig): EmployeeRow[] => {
+    const { groupByFields = [], aggregations = {} } = config;
+    const groups = new Map<string, EmployeeRow[]>();
+    stackData(sheets, mappings, config.sourceTransforms).forEach(row => {
+        const groupKey = groupByFields.map(f => String(row[f] ?? '')).join(COMPOSITE_KEY_SEPARATOR);
+        if (!groups.has(groupKey)) groups.set(groupKey, []);
+        groups.get(groupKey)!.push(row);
+    });
+
+    return Array.from(groups.values()).map((rows, idx) => {
+        const newRow: EmployeeRow = { id: `aggregated-${idx}` };
+        Object.keys(mappings).forEach(targetField => {
+            newRow[targetField] = groupByFields.includes(targetField)
+                ? rows[0][targetField]
+                : aggregateValues(rows.map(r => r[targetField]), aggregations[targetField] || 'first');
         });
-        const firstSource = Object.values(entry)[0];
-        newRow['_sourceFile'] = firstSource ? (firstSource as any)._srcFile : 'Joined';
-        newRow['_sourceSheet'] = firstSource ? (firstSource as any)._srcSheet : 'Joined';
+        newRow['_sourceFile'] = Array.from(new Set(rows.map(r => String(r._sourceFile)))).join(', ');
+        newRow['_sourceSheet'] = Array.from(new Set(rows.map(r => String(r._sourceSheet)))).join(', ');
         return newRow;
     });
-    return result;
 };
 
-export const mergeData = (sheets: SheetData[], mappings: Record<string, string[]>, config?: MergeConfig): EmployeeRow[] => {
-    if (config?.method === 'join') return joinData(sheets, mappings, config);
-    return stackData(sheets, mappings);
+// `fields` supplies the target field types the join's duplicate aggregation goes by
+export const mergeDataWithReport = (sheets: SheetData[], mappings: Record<string, string[]>, config?: MergeConfig, fields: FieldDefinition[] = []): MergeResult => {
+    if (config?.method === 'join') return joinData(sheets, mappings, config, Object.fromEntries(fields.map(f => [f.key, f.type])));
+    if (config?.method === 'aggregate') return { rows: aggregateData(sheets, mappings, config), duplicates: [], reconciliation: [] };
+    return { rows: stackData(sheets, mappings, config?.sourceTransforms), duplicates: [], reconciliation: [] };
+};
+
+export const mergeData = (sheets: SheetData[], mappings: Record<string, string[]>, config?: MergeConfig, fields: FieldDefinition[] = []): EmployeeRow[] => {
+    return mergeDataWithReport(sheets, mappings, config, fields).rows;
+};
+
+// Groups rows by the distinct value of a field, preserving first-seen order
+export const groupRowsByField = (rows: EmployeeRow[], fieldKey: string): Map<string, EmployeeRow[]> => {
+    const groups = new Map<string, EmployeeRow[]>();
+    rows.forEach(row => {
+        const raw = row[fieldKey];
+        const groupKey = raw === undefined || raw === null || String(raw).trim() === '' ? '(空白)' : String(raw).trim();
+        if (!groups.has(groupKey)) groups.set(groupKey, []);
+        groups.get(groupKey)!.push(row);
+    });
+    return groups;
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'xlsx',
+  delimiter: ',',
+  encoding: 'utf-8',
+  includeBom: true,
+  prettyJson: true,
+  boldHeader: false,
+  freezeHeader: false,
+  autoFilter: false,
+  columnWidths: false,
+  totalsRow: false,
+};
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+// Formats that hold a single table per file; multi-sheet exports of these become a ZIP
+const isSingleTableFormat = (format: ExportFormat) => format === 'csv' || format === 'tsv';
+
+interface ExportTable {
+  name: string;
+  headers: string[];
+  rows: any[];
+  columnTypes?: Record<string, FieldType>;
+  columnWidths?: Record<string, number>; // px, as shown on screen
+  hasTotalsRow?: boolean;                // Last row holds the column sums
+  password?: string;                     // xlsx only: sheet is written read-only with this password
+}
+
+const TOTALS_LABEL = '合計';
+
+const isNumericColumn = (table: ExportTable, header: string) => {
+  const type = table.columnTypes?.[header];
+  if (type) return type === 'number' || type === 'currency';
+  const values = table.rows.map(r => r[header]).filter(v => v !== undefined && v !== null && v !== '');
+  // Untyped columns qualify only when every value is a number (identifiers like 00123 do not)
+  return values.length > 0 && values.every(v => !/^0\d/.test(String(v).trim()) && toNumberOrNull(v) !== null);
+};
+
+const withTotalsRow = (table: ExportTable): ExportTable => {
+  const numeric = table.headers.filter(h => isNumericColumn(table, h));
+  if (numeric.length === 0) return table;
+  const totals: any = {};
+  numeric.forEach(h => {
+    totals[h] = table.rows.reduce((sum, r) => sum + (toNumberOrNull(r[h] ?? '') ?? 0), 0);
+  });
+  const labelHeader = table.headers.find(h => !numeric.includes(h));
+  if (labelHeader) totals[labelHeader] = TOTALS_LABEL;
+  return { ...table, rows: [...table.rows, totals], hasTotalsRow: true };
+};
+
+// Full-width characters take about two character widths in Excel
+const displayLength = (val: any) => Array.from(formatCellText(val)).reduce((len, ch) => len + (ch.charCodeAt(0) > 0xFF ? 2 : 1), 0);
+
+const getColumnLayout = (table: ExportTable): XLSX.ColInfo[] => table.headers.map(h => {
+  const px = table.columnWidths?.[h];
+  if (px) return { wpx: px };
+  const longest = Math.max(displayLength(h), ...table.rows.slice(0, 1000).map(r => displayLength(r[h])));
+  return { wch: Math.min(50, Math.max(8, longest + 2)) };
+});
+
+const EXCEL_NUMBER_FORMATS: Partial<Record<FieldType, string>> = {
+  date: 'yyyy-mm-dd',
+  currency: '#,##0.00',
+  percent: '0.00%',
+  'text-id': '@',
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', '是', 'v', '✓'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', '否', 'x'];
+
+const toBooleanOrNull = (val: any): boolean | null => {
+  if (typeof val === 'boolean') return val;
+  const text = String(val).trim().toLowerCase();
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text)) return false;
+  return null;
+};
+
+// Bare numbers are already ratios (1.5 is 150%); only text with a % sign is in points
+const toPercentRatioOrNull = (val: any): number | null => {
+  const text = String(val).trim();
+  const num = toNumberOrNull(text.replace(/%$/, ''));
+  if (num === null) return null;
+  return text.endsWith('%') ? num / 100 : num;
+};
+
+const toExcelSerialOrNull = (val: any): number | null => {
+  if (typeof val === 'number') return isPotentialExcelDate(val) ? val : null;
+  const time = toTimestampOrNull(val);
+  return time === null ? null : time / (86400 * 1000) + 25569;
+};
+
+// Typed value for JSON output; values that don't fit the type are passed through unchanged
+const coerceExportValue = (val: any, type?: FieldType): any => {
+  if (val === undefined || val === null || val === '' || !type) return val;
+  switch (type) {
+    case 'date': return typeof val === 'number' && isPotentialExcelDate(val) ? excelDateToJSDate(val) : val;
+    case 'number':
+    case 'currency': return toNumberOrNull(val) ?? val;
+    case 'percent': return toPercentRatioOrNull(val) ?? val;
+    case 'boolean': return toBooleanOrNull(val) ?? val;
+    case 'text-id': return String(val);
+    default: return val;
+  }
+};
+
+// Rewrites the cells of typed columns as real numbers, dates and booleans with number formats
+const applyColumnTypes = (worksheet: XLSX.WorkSheet, table: ExportTable) => {
+  table.headers.forEach((header, c) => {
+    const type = table.columnTypes?.[header];
+    if (!type || type === 'string') return;
+    table.rows.forEach((row, i) => {
+      const val = row[header];
+      if (val === undefined || val === null || val === '') return;
+      const address = XLSX.utils.encode_cell({ r: i + 1, c });
+      const z = EXCEL_NUMBER_FORMATS[type];
+      let cell: XLSX.CellObject | null = null;
+      if (type === 'date') {
+        const serial = toExcelSerialOrNull(val);
+        if (serial !== null) cell = { t: 'n', v: serial, z };
+      } else if (type === 'number' || type === 'currency') {
+        const num = toNumberOrNull(val);
+        if (num !== null) cell = { t: 'n', v: num, z };
+      } else if (type === 'percent') {
+        const ratio = toPercentRatioOrNull(val);
+        if (ratio !== null) cell = { t: 'n', v: ratio, z };
+      } else if (type === 'boolean') {
+        const bool = toBooleanOrNull(val);
+        if (bool !== null) cell = { t: 'b', v: bool };
+      } else if (type === 'text-id') {
+        cell = { t: 's', v: String(val), z };
+      }
+      if (cell) worksheet[address] = cell;
+    });
+  });
+};
+
+const formatCellText = (val: any) => val === undefined || val === null ? '' : String(val);
+
+const encodeText = (text: string, options: ExportOptions): Uint8Array => {
+  if (options.encoding === 'utf-16le') {
+    const offset = options.includeBom ? 2 : 0;
+    const bytes = new Uint8Array(offset + text.length * 2);
+    if (options.includeBom) bytes.set([0xFF, 0xFE]);
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      bytes[offset + i * 2] = code & 0xFF;
+      bytes[offset + i * 2 + 1] = code >> 8;
+    }
+    return bytes;
+  }
+  const encoded = new TextEncoder().encode(text);
+  if (!options.includeBom) return encoded;
+  const bytes = new Uint8Array(encoded.length + 3);
+  bytes.set([0xEF, 0xBB, 0xBF]);
+  bytes.set(encoded, 3);
+  return bytes;
+};
+
+const toDelimitedText = (table: ExportTable, delimiter: string) => {
+  const escape = (val: any) => {
+    const text = formatCellText(val);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [table.headers.map(escape).join(delimiter), ...table.rows.map(row => table.headers.map(h => escape(row[h])).join(delimiter))];
+  return lines.join('\r\n');
+};
+
+const escapeHtml = (val: any) => formatCellText(val)
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toHtmlDocument = (tables: ExportTable[], title: string) => {
+  const sections = tables.map(table => `
+<h2>${escapeHtml(table.name)}</h2>
+<table>
+<thead><tr>${table.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+<tbody>
+${table.rows.map(row => `<tr>${table.headers.map(h => `<td>${escapeHtml(row[h])}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`).join('\n');
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+body { font-family: sans-serif; margin: 24px; color: #1e293b; }
+h2 { font-size: 16px; margin: 24px 0 8px; }
+table { border-collapse: collapse; width: 100%; font-size: 12px; }
+th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; }
+th { background: #f1f5f9; }
+tr { page-break-inside: avoid; }
+</style></head>
+<body>${sections}
+</body></html>`;
 };
 
-export const exportToExcel = (data: any[], fileName: string) => {
-  const worksheet = XLSX.utils.json_to_sheet(data);
+const toJsonRecords = (table: ExportTable) => table.rows.map(row => {
+  const record: any = {};
+  table.headers.forEach(h => { record[h] = coerceExportValue(row[h], table.columnTypes?.[h]) ?? null; });
+  return record;
+});
+
+const buildSpreadsheet = async (tables: ExportTable[], format: 'xlsx' | 'ods', options: ExportOptions): Promise<Blob> => {
   const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, "Report");
-  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+  tables.forEach(table => {
+    const worksheet = XLSX.utils.json_to_sheet(table.rows, { header: table.headers });
+    applyColumnTypes(worksheet, table);
+    const lastRow = table.rows.length; // 0-based index of the last row, header included
+    const lastDataRow = table.hasTotalsRow ? lastRow - 1 : lastRow;
+    if (table.hasTotalsRow) {
+      // Keep the sums live (and filter-aware) rather than static numbers
+      table.headers.forEach((h, c) => {
+        const cell = worksheet[XLSX.utils.encode_cell({ r: lastRow, c })];
+        if (cell?.t !== 'n' || lastDataRow < 1) return;
+        const col = XLSX.utils.encode_col(c);
+        cell.f = `SUBTOTAL(109,${col}2:${col}${lastDataRow + 1})`;
+      });
+    }
+    if (options.autoFilter && table.headers.length > 0) {
+      worksheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: lastDataRow, c: table.headers.length - 1 } }) };
+    }
+    if (options.columnWidths) worksheet['!cols'] = getColumnLayout(table);
+    // Selecting cells stays allowed; editing, inserting and formatting are locked
+    if (table.password && format === 'xlsx') worksheet['!protect'] = { password: table.password };
+    const baseName = table.name.substring(0, 31).replace(/[:\\/?*[\]]/g, "") || 'Sheet';
+    // Excel compares sheet names case-insensitively and caps them at 31 characters
+    const taken = (name: string) => workbook.SheetNames.some(existing => existing.toLowerCase() === name.toLowerCase());
+    let safeName = baseName;
+    for (let n = 2; taken(safeName); n++) safeName = `${baseName.substring(0, 31 - `_${n}`.length)}_${n}`;
+    XLSX.utils.book_append_sheet(workbook, worksheet, safeName);
+  });
+  let buffer: ArrayBuffer = XLSX.write(workbook, { bookType: format, type: 'array' });
+  if (format === 'xlsx') {
+    buffer = await applyXlsxStyling(buffer, tables.map(table => ({
+      freezeHeader: options.freezeHeader,
+      boldRows: [
+        ...(options.boldHeader ? [1] : []),
+        ...(table.hasTotalsRow ? [table.rows.length + 1] : []),
+      ],
+    })));
+  }
+  return new Blob([buffer], { type: EXPORT_MIME_TYPES[format] });
+};
+
+// Serialises one or more tables into a single file of the chosen format
+const buildExportBlob = async (sourceTables: ExportTable[], title: string, options: ExportOptions): Promise<Blob> => {
+  const { format } = options;
+  if (format === 'json') {
+    const payload = sourceTables.length === 1
+      ? toJsonRecords(sourceTables[0])
+      : Object.fromEntries(sourceTables.map(t => [t.name, toJsonRecords(t)]));
+    return new Blob([JSON.stringify(payload, null, options.prettyJson ? 2 : undefined)], { type: EXPORT_MIME_TYPES.json });
+  }
+  const tables = options.totalsRow ? sourceTables.map(withTotalsRow) : sourceTables;
+  if (format === 'xlsx' || format === 'ods') return buildSpreadsheet(tables, format, options);
+  if (format === 'html') return new Blob([toHtmlDocument(tables, title)], { type: EXPORT_MIME_TYPES.html });
+  const delimiter = format === 'tsv' ? '\t' : options.delimiter;
+  const charset = options.encoding === 'utf-16le' ? 'utf-16le' : 'utf-8';
+  return new Blob([encodeText(toDelimitedText(tables[0], delimiter), options)], { type: `${EXPORT_MIME_TYPES[format]};charset=${charset}` });
+};
+
+const getDataHeaders = (data: any[]) => {
+  const headers: string[] = [];
+  data.forEach(row => Object.keys(row).forEach(h => { if (!headers.includes(h)) headers.push(h); }));
+  return headers;
+};
+
+export const exportToExcel = async (
+  data: any[],
+  fileName: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+  columns: { columnTypes?: Record<string, FieldType>; columnWidths?: Record<string, number> } = {}
+) => {
+  const table: ExportTable = { name: 'Report', headers: getDataHeaders(data), rows: data, ...columns };
+  saveAs(await buildExportBlob([table], fileName, options), `${fileName}.${options.format}`);
 };
 
 const getCleanSheetData = (sheet: SheetData) => {
@@ -228,31 +935,82 @@ const getCleanSheetData = (sheet: SheetData) => {
   });
 };
 
-export const exportWorkbook = (sheets: SheetData[], fileName: string) => {
-  const workbook = XLSX.utils.book_new();
-  sheets.forEach(sheet => {
-    const cleanData = getCleanSheetData(sheet);
-    const worksheet = XLSX.utils.json_to_sheet(cleanData, { header: sheet.headers });
-    let safeName = sheet.sheetName.substring(0, 31).replace(/[:\\/?*[\]]/g, "");
-    if (workbook.SheetNames.includes(safeName)) {
-        safeName = `${safeName.substring(0, 28)}_${Math.floor(Math.random() * 99)}`;
-    }
-    XLSX.utils.book_append_sheet(workbook, worksheet, safeName);
+const toExportTable = (sheet: SheetData): ExportTable => ({
+  name: sheet.sheetName, headers: sheet.headers, rows: getCleanSheetData(sheet),
+  columnTypes: sheet.columnTypes, columnWidths: sheet.columnWidths
+});
+
+export interface ExportProtection {
+  mode: Exclude<ProtectionMode, 'none'>;
+  passwords: Record<string, string>; // keyed by sheetName, the output name
+}
+
+// Offered from an explicit button once the export is done: a second automatic download right after
+// the export is often blocked, and the manifest never travels inside the bundle of protected files
+export const downloadPasswordManifest = (entries: PasswordManifestEntry[], baseFileName: string) => {
+  const table: ExportTable = {
+    name: 'Passwords',
+    headers: ['輸出', '檔案', '密碼'],
+    rows: entries.map(e => ({ '輸出': e.output, '檔案': e.file, '密碼': e.password })),
+  };
+  const text = toDelimitedText(table, ',');
+  const csvOptions: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS, format: 'csv', includeBom: true };
+  saveAs(new Blob([encodeText(text, csvOptions)], { type: `${EXPORT_MIME_TYPES.csv};charset=utf-8` }), `${baseFileName}_passwords.csv`);
+};
+
+// Returns the passwords that were applied, one entry per protected output (empty without protection).
+// A workbook can only carry read-only sheet protection; every sheet gets its own output's password.
+export const exportWorkbook = async (
+  sheets: SheetData[],
+  fileName: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+  protection?: ExportProtection
+): Promise<PasswordManifestEntry[]> => {
+  // A CSV/TSV file cannot hold several sheets
+  if (isSingleTableFormat(options.format) && sheets.length > 1) {
+    return exportMultipleFilesAsZip(sheets, fileName, options, protection);
+  }
+  if (protection?.mode === 'zip') throw new Error('加密 ZIP 只能用於每份一個檔案的輸出');
+  const file = `${fileName}.${options.format}`;
+  const manifest: PasswordManifestEntry[] = [];
+  const tables = sheets.map(sheet => {
+    const password = protection?.passwords[sheet.sheetName];
+    if (password) manifest.push({ output: sheet.sheetName, file, password });
+    return { ...toExportTable(sheet), password };
   });
-  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+  saveAs(await buildExportBlob(tables, fileName, options), file);
+  return manifest;
 };
 
-export const exportMultipleFilesAsZip = async (sheets: SheetData[], baseFileName: string) => {
+export const exportMultipleFilesAsZip = async (
+  sheets: SheetData[],
+  baseFileName: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+  protection?: ExportProtection
+): Promise<PasswordManifestEntry[]> => {
   const zip = new JSZip();
-  sheets.forEach(sheet => {
-    const workbook = XLSX.utils.book_new();
-    const cleanData = getCleanSheetData(sheet);
-    const worksheet = XLSX.utils.json_to_sheet(cleanData, { header: sheet.headers });
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1");
-    const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
-    const safeName = sheet.sheetName.replace(/[:\\/?*[\]]/g, "_");
-    zip.file(`${safeName}.xlsx`, excelBuffer);
-  });
+  const usedNames = new Set<string>();
+  const manifest: PasswordManifestEntry[] = [];
+  for (const sheet of sheets) {
+    const password = protection?.passwords[sheet.sheetName];
+    const table: ExportTable = { ...toExportTable(sheet), name: 'Sheet1', password: protection?.mode === 'sheet' ? password : undefined };
+    const blob = await buildExportBlob([table], sheet.sheetName, options);
+    const baseName = sheet.sheetName.replace(/[:\\/?*[\]]/g, "_") || 'Sheet';
+    // Different group values can sanitize to the same file name; suffix them instead of overwriting
+    let safeName = baseName;
+    for (let n = 2; usedNames.has(safeName.toLowerCase()); n++) safeName = `${baseName}_${n}`;
+    usedNames.add(safeName.toLowerCase());
+    const fileName = `${safeName}.${options.format}`;
+    if (protection?.mode === 'zip' && password) {
+      const data = new Uint8Array(await blob.arrayBuffer());
+      zip.file(`${safeName}.zip`, createEncryptedZip([{ name: fileName, data }], password));
+      manifest.push({ output: sheet.sheetName, file: `${safeName}.zip`, password });
+    } else {
+      zip.file(fileName, blob);
+      if (password) manifest.push({ output: sheet.sheetName, file: fileName, password });
+    }
+  }
   const content = await zip.generateAsync({ type: "blob" });
   saveAs(content, `${baseFileName}.zip`);
-};
\ No newline at end of file
+  return manifest;
+};
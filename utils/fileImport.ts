@@ -0,0 +1,88 @@
+import { SheetData } from '../types';
+import { readExcelFiles } from './excelUtils';
+import { DELIMITED_EXTENSIONS } from './delimitedText';
+
+const JSON_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+// .ods is read by the xlsx library alongside the Excel formats
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+export const SUPPORTED_EXTENSIONS = [...SPREADSHEET_EXTENSIONS, ...DELIMITED_EXTENSIONS, ...JSON_EXTENSIONS];
+
+const hasExtension = (fileName: string, extensions: string[]) =>
+  extensions.some(ext => fileName.toLowerCase().endsWith(ext));
+
+export const isSupportedFile = (fileName: string) => hasExtension(fileName, SUPPORTED_EXTENSIONS);
+
+const isPlainObject = (val: any) => val !== null && typeof val === 'object' && !Array.isArray(val);
+
+// { a: { b: 1 } } -> { 'a.b': 1 }; arrays of scalars are joined, anything else nested is kept as JSON text
+const flattenObject = (obj: any, prefix = '', out: Record<string, any> = {}): Record<string, any> => {
+  Object.entries(obj).forEach(([key, val]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(val)) {
+      flattenObject(val, path, out);
+    } else if (Array.isArray(val)) {
+      out[path] = val.every(v => !isPlainObject(v) && !Array.isArray(v)) ? val.join(', ') : JSON.stringify(val);
+    } else if (val !== null && val !== undefined) {
+      out[path] = val;
+    }
+  });
+  return out;
+};
+
+const recordsToSheet = (fileName: string, sheetName: string, records: any[]): SheetData => {
+  const rows = records.map(r => isPlainObject(r) ? flattenObject(r) : { value: r });
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(h => {
+    if (!seen.has(h)) {
+      seen.add(h);
+      headers.push(h);
+    }
+  }));
+  return { fileName, sheetName, headers, rows };
+};
+
+const parseNdjson = (text: string): any[] =>
+  text.split(/\r?\n/).filter(line => line.trim() !== '').map(line => JSON.parse(line));
+
+// A top-level array becomes one sheet; an object holding arrays becomes one sheet per array property
+export const parseJsonSheets = (fileName: string, text: string): SheetData[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    // NDJSON dumps are often saved as .json
+    if (!hasExtension(fileName, ['.json'])) throw err;
+    return [recordsToSheet(fileName, 'Sheet1', parseNdjson(text))];
+  }
+  if (Array.isArray(data)) return [recordsToSheet(fileName, 'Sheet1', data)];
+  if (isPlainObject(data)) {
+    const arrays = Object.entries(data).filter(([, val]) => Array.isArray(val));
+    if (arrays.length > 0) return arrays.map(([key, val]) => recordsToSheet(fileName, key, val as any[]));
+    return [recordsToSheet(fileName, 'Sheet1', [data])];
+  }
+  return [];
+};
+
+export const readJsonFile = async (file: File): Promise<SheetData[]> => {
+  const text = await file.text();
+  const sheets = hasExtension(file.name, ['.ndjson', '.jsonl'])
+    ? [recordsToSheet(file.name, 'Sheet1', parseNdjson(text))]
+    : parseJsonSheets(file.name, text);
+  return sheets.filter(s => s.rows.length > 0);
+};
+
+// Dispatches each file to its reader, keeping the upload order. Delimited text files are
+// handled separately because they need the user to confirm encoding and delimiter.
+export const readDataFiles = async (files: File[]): Promise<SheetData[]> => {
+  const results: SheetData[] = [];
+  for (const file of files) {
+    if (hasExtension(file.name, JSON_EXTENSIONS)) {
+      results.push(...await readJsonFile(file));
+    } else {
+      results.push(...await readExcelFiles([file]));
+    }
+  }
+  return results;
+};
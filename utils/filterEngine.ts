@@ -0,0 +1,242 @@
+import { EmployeeRow, FieldDefinition, FilterCondition, FilterGroup, FilterLogic, FilterNode, FilterOperator, MaskingOperation, MaskingRule, OutputColumn, SplitRecipe } from '../types';
+
+export type ColumnType = 'string' | 'number';
+
+export const NUMERIC_OPERATORS: FilterOperator[] = ['lte', 'gte', 'eq', 'neq', 'gt', 'lt'];
+export const STRING_OPERATORS: FilterOperator[] = ['contains', 'not_contains', 'eq', 'neq', 'starts_with', 'ends_with'];
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: '等於', neq: '不等於', gt: '大於', lt: '小於', gte: '大於等於', lte: '小於等於',
+  contains: '包含', not_contains: '不包含', starts_with: '開頭為', ends_with: '結尾為'
+};
+
+const OPERATOR_SYMBOLS: Record<FilterOperator, string> = {
+  eq: '=', neq: '≠', gt: '>', lt: '<', gte: '>=', lte: '<=',
+  contains: 'contains', not_contains: 'not contains', starts_with: 'starts with', ends_with: 'ends with'
+};
+
+const newNodeId = () => Math.random().toString(36).slice(2, 10);
+
+export const createCondition = (field = '', operator: FilterOperator = 'eq', value = ''): FilterCondition => ({
+  kind: 'condition', id: newNodeId(), field, operator, value
+});
+
+export const createGroup = (logic: FilterLogic = 'and', children: FilterNode[] = []): FilterGroup => ({
+  kind: 'group', id: newNodeId(), logic, children
+});
+
+// Sample the first rows of a column; treat it as numeric when most non-empty values parse as numbers
+export const detectColumnType = (rows: EmployeeRow[], key: string): ColumnType => {
+  const sampleSize = Math.min(rows.length, 100);
+  let numCount = 0;
+  let validCount = 0;
+  for (let i = 0; i < sampleSize; i++) {
+    const val = rows[i][key];
+    if (val !== undefined && val !== null && val !== '') {
+      validCount++;
+      if (!isNaN(parseFloat(String(val))) && isFinite(Number(val))) {
+        numCount++;
+      }
+    }
+  }
+  return validCount > 0 && (numCount / validCount) > 0.8 ? 'number' : 'string';
+};
+
+// Single comparison. Ordering operators always compare numerically, text operators always compare
+// as case-insensitive strings, and eq/neq follow the detected column type.
+export const matchesCondition = (cellValue: any, operator: FilterOperator, compareValue: string, type: ColumnType): boolean => {
+  const isOrdering = operator === 'gt' || operator === 'lt' || operator === 'gte' || operator === 'lte';
+  const isEquality = operator === 'eq' || operator === 'neq';
+
+  if (isOrdering || (isEquality && type === 'number')) {
+    const numCell = parseFloat(String(cellValue));
+    const numCompare = parseFloat(compareValue);
+    if (isNaN(numCell) || isNaN(numCompare)) return false;
+    switch (operator) {
+      case 'eq': return numCell === numCompare;
+      case 'neq': return numCell !== numCompare;
+      case 'gt': return numCell > numCompare;
+      case 'lt': return numCell < numCompare;
+      case 'gte': return numCell >= numCompare;
+      case 'lte': return numCell <= numCompare;
+      default: return false;
+    }
+  }
+
+  const strCell = String(cellValue ?? '').toLowerCase();
+  const strCompare = String(compareValue).toLowerCase();
+  switch (operator) {
+    case 'eq': return strCell === strCompare;
+    case 'neq': return strCell !== strCompare;
+    case 'contains': return strCell.includes(strCompare);
+    case 'not_contains': return !strCell.includes(strCompare);
+    case 'starts_with': return strCell.startsWith(strCompare);
+    case 'ends_with': return strCell.endsWith(strCompare);
+    default: return false;
+  }
+};
+
+const collectFields = (node: FilterNode, acc: Set<string>) => {
+  if (node.kind === 'condition') {
+    if (node.field) acc.add(node.field);
+  } else {
+    node.children.forEach(child => collectFields(child, acc));
+  }
+  return acc;
+};
+
+// Compile a rule tree into a row predicate. Column types are detected once from `rows`.
+// Conditions without a field and empty groups impose no constraint.
+export const createRowPredicate = (node: FilterNode, rows: EmployeeRow[]): ((row: EmployeeRow) => boolean) => {
+  const types: Record<string, ColumnType> = {};
+  collectFields(node, new Set()).forEach(key => {
+    types[key] = detectColumnType(rows, key);
+  });
+
+  const evaluate = (current: FilterNode, row: EmployeeRow): boolean => {
+    if (current.kind === 'condition') {
+      if (!current.field) return true;
+      return matchesCondition(row[current.field], current.operator, current.value, types[current.field]);
+    }
+    const active = current.children.filter(child => countConditions(child) > 0);
+    if (active.length === 0) return true;
+    return current.logic === 'and'
+      ? active.every(child => evaluate(child, row))
+      : active.some(child => evaluate(child, row));
+  };
+
+  return (row: EmployeeRow) => evaluate(node, row);
+};
+
+// The table search box: any of the given fields contains the text ('contains' never needs column types)
+export const createTextSearchPredicate = (text: string, fields: FieldDefinition[]): ((row: EmployeeRow) => boolean) => {
+  return createRowPredicate(createGroup('or', fields.map(f => createCondition(f.key, 'contains', text))), []);
+};
+
+export const countConditions = (node: FilterNode): number => {
+  if (node.kind === 'condition') return node.field ? 1 : 0;
+  return node.children.reduce((sum, child) => sum + countConditions(child), 0);
+};
+
+// Human readable form, e.g. "Job_Level >= 8 AND (Entity = TW_North OR Dept_Name contains 業務)"
+export const describeRule = (node: FilterNode, fields: FieldDefinition[], isRoot = true): string => {
+  if (node.kind === 'condition') {
+    const label = fields.find(f => f.key === node.field)?.label || node.field;
+    return `${label} ${OPERATOR_SYMBOLS[node.operator]} ${node.value}`;
+  }
+  const parts = node.children
+    .filter(child => countConditions(child) > 0)
+    .map(child => describeRule(child, fields, false));
+  if (parts.length === 0) return '';
+  const joined = parts.join(node.logic === 'and' ? ' AND ' : ' OR ');
+  return isRoot || parts.length === 1 ? joined : `(${joined})`;
+};
+
+export const createRecipe = (index: number, field = ''): SplitRecipe => ({
+  id: newNodeId(),
+  name: `方案 ${index}`,
+  rule: createGroup('and', [createCondition(field)]),
+  outputName: `Output_${index}`,
+  masking: [],
+  columns: []
+});
+
+export interface RecipeOutput {
+  name: string;
+  rows: EmployeeRow[];
+  isRemainder?: boolean;
+  masking?: MaskingRule[];
+  columns?: OutputColumn[];
+}
+
+const MASKING_STRICTNESS: Record<MaskingOperation, number> = { bucket: 1, keepLast4: 2, hash: 3, drop: 4 };
+
+// The remainder has no recipe of its own, so it gets the strictest treatment any recipe gives a field:
+// the strongest mask per field (widest bucket on ties) and only the columns every recipe exports.
+// `defaultColumnKeys` stands in for recipes without their own column list.
+export const getRemainderProtection = (recipes: SplitRecipe[], defaultColumnKeys: string[]): { masking: MaskingRule[]; columns: OutputColumn[] } => {
+  const strictest = new Map<string, MaskingRule>();
+  recipes.forEach(recipe => (recipe.masking || []).forEach(rule => {
+    if (!rule.field) return;
+    const current = strictest.get(rule.field);
+    const stricter = !current
+      || MASKING_STRICTNESS[rule.operation] > MASKING_STRICTNESS[current.operation]
+      || (rule.operation === 'bucket' && current.operation === 'bucket' && (rule.bucketSize || 0) > (current.bucketSize || 0));
+    if (stricter) strictest.set(rule.field, rule);
+  }));
+
+  const columnKeys = recipes.map(recipe => recipe.columns && recipe.columns.length > 0 ? recipe.columns.map(c => c.key) : defaultColumnKeys);
+  const shared = (columnKeys[0] || defaultColumnKeys).filter(key => columnKeys.every(keys => keys.includes(key)));
+  return {
+    masking: Array.from(strictest.values()),
+    columns: shared.filter(key => strictest.get(key)?.operation !== 'drop').map(key => ({ key, label: '' })),
+  };
+};
+
+// Evaluate every recipe against the rows. A row may land in several outputs; rows matched by
+// none of them go to the remainder output when `remainderName` is given.
+export const runSplitRecipes = (
+  rows: EmployeeRow[],
+  recipes: SplitRecipe[],
+  remainderName?: string,
+  defaultColumnKeys: string[] = []
+): RecipeOutput[] => {
+  const matched = new Set<string>();
+  const outputs: RecipeOutput[] = recipes.map(recipe => {
+    const predicate = createRowPredicate(recipe.rule, rows);
+    const recipeRows = rows.filter(predicate);
+    recipeRows.forEach(row => matched.add(row.id));
+    return { name: recipe.outputName || recipe.name, rows: recipeRows, masking: recipe.masking, columns: recipe.columns };
+  });
+  if (remainderName) {
+    outputs.push({
+      name: remainderName,
+      rows: rows.filter(row => !matched.has(row.id)),
+      isRemainder: true,
+      ...getRemainderProtection(recipes, defaultColumnKeys),
+    });
+  }
+  return outputs;
+};
+
+// Field definitions for an output's own column list, relabeled and in its order.
+// No list means the fallback (the table's visible columns); repeated labels get a numeric suffix.
+export const resolveOutputFields = (
+  columns: OutputColumn[] | undefined,
+  available: FieldDefinition[],
+  fallback: FieldDefinition[]
+): FieldDefinition[] => {
+  if (!columns || columns.length === 0) return fallback;
+  const used = new Set<string>();
+  const resolved: FieldDefinition[] = [];
+  columns.forEach(col => {
+    const field = available.find(f => f.key === col.key);
+    if (!field) return;
+    const base = col.label.trim() || field.label;
+    let label = base;
+    for (let n = 2; used.has(label); n++) label = `${base} (${n})`;
+    used.add(label);
+    resolved.push({ ...field, label });
+  });
+  return resolved;
+};
+
+// --- Immutable tree helpers for the rule builder ---
+export const updateRuleNode = (root: FilterGroup, id: string, updater: (node: FilterNode) => FilterNode): FilterGroup => {
+  const visit = (node: FilterNode): FilterNode => {
+    if (node.id === id) return updater(node);
+    if (node.kind === 'group') return { ...node, children: node.children.map(visit) };
+    return node;
+  };
+  return visit(root) as FilterGroup;
+};
+
+export const removeRuleNode = (root: FilterGroup, id: string): FilterGroup => {
+  const visit = (group: FilterGroup): FilterGroup => ({
+    ...group,
+    children: group.children
+      .filter(child => child.id !== id)
+      .map(child => child.kind === 'group' ? visit(child) : child)
+  });
+  return visit(root);
+};
@@ -0,0 +1,475 @@
+import { EmployeeRow, FieldDefinition } from '../types';
+import { toNumberOrNull } from './excelUtils';
+
+// Small expression language for computed fields, evaluated without eval:
+//   Base_Salary * 12
+//   CONCAT(Entity, "-", EmpID)          or  Entity & "-" & EmpID
+//   IF(Job_Level >= 8, "Senior", "Junior")
+//   DAYS(TODAY(), [Hire Date])          field names with spaces go in brackets
+
+type FormulaValue = string | number | boolean;
+
+type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'field'; name: string }
+  | { kind: 'unary'; op: '-' | '+'; operand: FormulaNode }
+  | { kind: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+interface Token {
+  type: 'number' | 'string' | 'ident' | 'field' | 'op' | 'paren' | 'comma';
+  value: string;
+  pos: number;
+  end: number;
+}
+
+// Shown in a cell whose formula could not be evaluated for that row, as Excel does
+export const FORMULA_ERROR_VALUE = '#VALUE!';
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>'];
+const IDENT_START = /[A-Za-z_\u3400-\u9fff]/;
+const IDENT_PART = /[A-Za-z0-9_.\u3400-\u9fff]/;
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const start = i;
+    if (/\d/.test(ch) || (ch === '.' && /\d/.test(src[i + 1] || ''))) {
+      while (i < src.length && /[\d.]/.test(src[i])) i++;
+      tokens.push({ type: 'number', value: src.slice(start, i), pos: start, end: i });
+    } else if (ch === '"' || ch === "'") {
+      i++;
+      let text = '';
+      while (i < src.length && src[i] !== ch) {
+        // Backslash escapes the next character, e.g. "say \"hi\""
+        if (src[i] === '\\' && i + 1 < src.length) { text += src[i + 1]; i += 2; continue; }
+        text += src[i++];
+      }
+      if (i >= src.length) throw new Error(`第 ${start + 1} 個字元開始的字串缺少結尾引號`);
+      i++;
+      tokens.push({ type: 'string', value: text, pos: start, end: i });
+    } else if (ch === '[') {
+      const end = src.indexOf(']', i);
+      if (end < 0) throw new Error(`第 ${start + 1} 個字元的欄位名稱缺少 ]`);
+      tokens.push({ type: 'field', value: src.slice(i + 1, end).trim(), pos: start, end: end + 1 });
+      i = end + 1;
+    } else if (IDENT_START.test(ch)) {
+      while (i < src.length && IDENT_PART.test(src[i])) i++;
+      tokens.push({ type: 'ident', value: src.slice(start, i), pos: start, end: i });
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: 'paren', value: ch, pos: start, end: start + 1 });
+      i++;
+    } else if (ch === ',') {
+      tokens.push({ type: 'comma', value: ch, pos: start, end: start + 1 });
+      i++;
+    } else {
+      const op = OPERATORS.find(o => src.startsWith(o, i));
+      if (!op) throw new Error(`無法辨識的字元「${ch}」(第 ${start + 1} 個字元)`);
+      tokens.push({ type: 'op', value: op, pos: start, end: start + op.length });
+      i += op.length;
+    }
+  }
+  return tokens;
+};
+
+// Lowest to highest precedence; each level is left-associative except ^
+const BINARY_LEVELS: string[][] = [
+  ['=', '==', '<>', '!=', '<', '>', '<=', '>='],
+  ['&'],
+  ['+', '-'],
+  ['*', '/', '%'],
+  ['^'],
+];
+
+export const parseFormula = (src: string): FormulaNode => {
+  const tokens = tokenize(src);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const fail = (message: string): never => { throw new Error(message); };
+
+  const parseLevel = (level: number): FormulaNode => {
+    if (level >= BINARY_LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    while (peek()?.type === 'op' && BINARY_LEVELS[level].includes(peek().value)) {
+      const op = tokens[pos++].value;
+      const right = op === '^' ? parseLevel(level) : parseLevel(level + 1);
+      left = { kind: 'binary', op, left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const token = peek();
+    if (token?.type === 'op' && (token.value === '-' || token.value === '+')) {
+      pos++;
+      return { kind: 'unary', op: token.value, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[pos++];
+    if (!token) return fail('公式不完整');
+    switch (token.type) {
+      case 'number': {
+        const value = Number(token.value);
+        if (isNaN(value)) fail(`無效的數字「${token.value}」`);
+        return { kind: 'literal', value };
+      }
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'field':
+        return { kind: 'field', name: token.value };
+      case 'ident': {
+        if (peek()?.type === 'paren' && peek().value === '(') {
+          pos++;
+          const args: FormulaNode[] = [];
+          if (!(peek()?.type === 'paren' && peek().value === ')')) {
+            args.push(parseLevel(0));
+            while (peek()?.type === 'comma') { pos++; args.push(parseLevel(0)); }
+          }
+          if (!(peek()?.type === 'paren' && peek().value === ')')) fail(`函數 ${token.value} 缺少 )`);
+          pos++;
+          const name = token.value.toUpperCase();
+          if (!FUNCTIONS[name]) fail(`不支援的函數「${token.value}」`);
+          return { kind: 'call', name, args };
+        }
+        const upper = token.value.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') return { kind: 'literal', value: upper === 'TRUE' };
+        return { kind: 'field', name: token.value };
+      }
+      case 'paren':
+        if (token.value === '(') {
+          const inner = parseLevel(0);
+          if (!(peek()?.type === 'paren' && peek().value === ')')) fail('缺少 )');
+          pos++;
+          return inner;
+        }
+        return fail(`多餘的 ) (第 ${token.pos + 1} 個字元)`);
+      default:
+        return fail(`未預期的「${token.value}」(第 ${token.pos + 1} 個字元)`);
+    }
+  };
+
+  if (tokens.length === 0) fail('公式是空的');
+  const node = parseLevel(0);
+  if (pos < tokens.length) fail(`未預期的「${tokens[pos].value}」(第 ${tokens[pos].pos + 1} 個字元)`);
+  return node;
+};
+
+// --- Evaluation ---
+
+const toNumber = (value: FormulaValue): number => {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === '') return 0;
+  const num = toNumberOrNull(value);
+  if (num === null) throw new Error(`「${value}」不是數字`);
+  return num;
+};
+
+const toText = (value: FormulaValue): string => {
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+const toBoolean = (value: FormulaValue): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const upper = value.trim().toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE' || upper === '') return false;
+  return toNumber(value) !== 0;
+};
+
+const DAY_MS = 86400 * 1000;
+
+// Excel serials (as numbers) and date strings; returns a UTC midnight timestamp
+const toDate = (value: FormulaValue): number => {
+  if (typeof value === 'number') return Math.round((value - 25569) * DAY_MS);
+  const match = toText(value).trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  const time = Date.parse(toText(value));
+  if (isNaN(time)) throw new Error(`「${value}」不是日期`);
+  const d = new Date(time);
+  return Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+};
+
+const formatDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Whole months from a to b, counting a month only once its day has been reached
+const monthsBetween = (a: number, b: number) => {
+  const start = new Date(a);
+  const end = new Date(b);
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  if (end.getUTCDate() < start.getUTCDate()) months--;
+  return months;
+};
+
+// Equal when both read as numbers, otherwise compared as case-insensitive text
+const compare = (a: FormulaValue, b: FormulaValue): number => {
+  const na = typeof a === 'boolean' ? null : toNumberOrNull(a);
+  const nb = typeof b === 'boolean' ? null : toNumberOrNull(b);
+  if (na !== null && nb !== null && a !== '' && b !== '') return na - nb;
+  return toText(a).toLowerCase().localeCompare(toText(b).toLowerCase());
+};
+
+type FormulaFunction = { minArgs: number; maxArgs: number; fn: (args: FormulaValue[]) => FormulaValue };
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  IF: { minArgs: 2, maxArgs: 3, fn: ([cond, a, b = '']) => (toBoolean(cond) ? a : b) },
+  AND: { minArgs: 1, maxArgs: Infinity, fn: args => args.every(toBoolean) },
+  OR: { minArgs: 1, maxArgs: Infinity, fn: args => args.some(toBoolean) },
+  NOT: { minArgs: 1, maxArgs: 1, fn: ([v]) => !toBoolean(v) },
+  ISBLANK: { minArgs: 1, maxArgs: 1, fn: ([v]) => toText(v).trim() === '' },
+  IFBLANK: { minArgs: 2, maxArgs: 2, fn: ([v, fallback]) => (toText(v).trim() === '' ? fallback : v) },
+  CONCAT: { minArgs: 1, maxArgs: Infinity, fn: args => args.map(toText).join('') },
+  LEN: { minArgs: 1, maxArgs: 1, fn: ([v]) => toText(v).length },
+  UPPER: { minArgs: 1, maxArgs: 1, fn: ([v]) => toText(v).toUpperCase() },
+  LOWER: { minArgs: 1, maxArgs: 1, fn: ([v]) => toText(v).toLowerCase() },
+  TRIM: { minArgs: 1, maxArgs: 1, fn: ([v]) => toText(v).trim() },
+  LEFT: { minArgs: 1, maxArgs: 2, fn: ([v, n = 1]) => toText(v).slice(0, Math.max(0, toNumber(n))) },
+  RIGHT: { minArgs: 1, maxArgs: 2, fn: ([v, n = 1]) => { const count = Math.max(0, toNumber(n)); return count === 0 ? '' : toText(v).slice(-count); } },
+  MID: { minArgs: 3, maxArgs: 3, fn: ([v, start, n]) => toText(v).substr(Math.max(0, toNumber(start) - 1), Math.max(0, toNumber(n))) },
+  ROUND: { minArgs: 1, maxArgs: 2, fn: ([v, digits = 0]) => { const f = 10 ** toNumber(digits); return Math.round(toNumber(v) * f) / f; } },
+  ABS: { minArgs: 1, maxArgs: 1, fn: ([v]) => Math.abs(toNumber(v)) },
+  MIN: { minArgs: 1, maxArgs: Infinity, fn: args => Math.min(...args.map(toNumber)) },
+  MAX: { minArgs: 1, maxArgs: Infinity, fn: args => Math.max(...args.map(toNumber)) },
+  SUM: { minArgs: 1, maxArgs: Infinity, fn: args => args.reduce<number>((sum, v) => sum + toNumber(v), 0) },
+  TODAY: { minArgs: 0, maxArgs: 0, fn: () => { const d = new Date(); return formatDate(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate())); } },
+  YEAR: { minArgs: 1, maxArgs: 1, fn: ([v]) => new Date(toDate(v)).getUTCFullYear() },
+  MONTH: { minArgs: 1, maxArgs: 1, fn: ([v]) => new Date(toDate(v)).getUTCMonth() + 1 },
+  DAY: { minArgs: 1, maxArgs: 1, fn: ([v]) => new Date(toDate(v)).getUTCDate() },
+  // DAYS(end, start), same argument order as Excel
+  DAYS: { minArgs: 2, maxArgs: 2, fn: ([end, start]) => Math.round((toDate(end) - toDate(start)) / DAY_MS) },
+  // DATEDIF(start, end, "Y" | "M" | "D")
+  DATEDIF: {
+    minArgs: 3, maxArgs: 3, fn: ([start, end, unit]) => {
+      const a = toDate(start);
+      const b = toDate(end);
+      switch (toText(unit).toUpperCase()) {
+        case 'D': return Math.round((b - a) / DAY_MS);
+        case 'M': return monthsBetween(a, b);
+        case 'Y': return Math.floor(monthsBetween(a, b) / 12);
+        default: throw new Error('DATEDIF 的單位必須是 "Y"、"M" 或 "D"');
+      }
+    },
+  },
+  ADDDAYS: { minArgs: 2, maxArgs: 2, fn: ([date, n]) => formatDate(toDate(date) + Math.round(toNumber(n)) * DAY_MS) },
+};
+
+export const FORMULA_FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+// Field references are matched by key first, then by label
+const resolveField = (name: string, fields: FieldDefinition[]) =>
+  fields.find(f => f.key === name) || fields.find(f => f.label === name);
+
+const evaluate = (node: FormulaNode, row: EmployeeRow, fields: FieldDefinition[]): FormulaValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field': {
+      const field = resolveField(node.name, fields);
+      const value = field ? row[field.key] : undefined;
+      return value === undefined || value === null ? '' : value;
+    }
+    case 'unary': {
+      const value = toNumber(evaluate(node.operand, row, fields));
+      return node.op === '-' ? -value : value;
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      // IF only evaluates the branch it returns, so IF(x = 0, 0, y / x) is safe
+      if (node.name === 'IF') {
+        const cond = toBoolean(evaluate(node.args[0], row, fields));
+        const branch = cond ? node.args[1] : node.args[2];
+        return branch ? evaluate(branch, row, fields) : '';
+      }
+      return fn.fn(node.args.map(arg => evaluate(arg, row, fields)));
+    }
+    case 'binary': {
+      const left = evaluate(node.left, row, fields);
+      const right = evaluate(node.right, row, fields);
+      switch (node.op) {
+        case '&': return toText(left) + toText(right);
+        case '+': return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/': {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new Error('除以零');
+          return toNumber(left) / divisor;
+        }
+        case '%': return toNumber(left) % toNumber(right);
+        case '^': return toNumber(left) ** toNumber(right);
+        case '=': case '==': return compare(left, right) === 0;
+        case '<>': case '!=': return compare(left, right) !== 0;
+        case '<': return compare(left, right) < 0;
+        case '>': return compare(left, right) > 0;
+        case '<=': return compare(left, right) <= 0;
+        case '>=': return compare(left, right) >= 0;
+      }
+      throw new Error(`不支援的運算子 ${node.op}`);
+    }
+  }
+};
+
+const collectFieldNames = (node: FormulaNode, names: Set<string>) => {
+  if (node.kind === 'field') names.add(node.name);
+  else if (node.kind === 'unary') collectFieldNames(node.operand, names);
+  else if (node.kind === 'binary') { collectFieldNames(node.left, names); collectFieldNames(node.right, names); }
+  else if (node.kind === 'call') node.args.forEach(arg => collectFieldNames(arg, names));
+};
+
+const checkArity = (node: FormulaNode) => {
+  if (node.kind === 'call') {
+    const { minArgs, maxArgs } = FUNCTIONS[node.name];
+    if (node.args.length < minArgs || node.args.length > maxArgs) {
+      const expected = minArgs === maxArgs ? `${minArgs}` : maxArgs === Infinity ? `至少 ${minArgs}` : `${minArgs}–${maxArgs}`;
+      throw new Error(`${node.name} 需要 ${expected} 個參數，收到 ${node.args.length} 個`);
+    }
+    node.args.forEach(checkArity);
+  } else if (node.kind === 'unary') {
+    checkArity(node.operand);
+  } else if (node.kind === 'binary') {
+    checkArity(node.left);
+    checkArity(node.right);
+  }
+};
+
+// Keys of the fields a formula reads; unknown names are reported by validateFormula
+export const getFormulaDependencies = (formula: string, fields: FieldDefinition[]): string[] => {
+  const names = new Set<string>();
+  collectFieldNames(parseFormula(formula), names);
+  return Array.from(names).map(name => resolveField(name, fields)?.key).filter((k): k is string => !!k);
+};
+
+// Rewrites references to a renamed field; formulas that don't parse are returned unchanged
+export const renameFormulaField = (formula: string, oldName: string, newName: string): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula);
+  } catch {
+    return formula;
+  }
+  const bare = IDENT_START.test(newName[0] || '') && Array.from(newName).every(ch => IDENT_PART.test(ch)) && !/^(true|false)$/i.test(newName);
+  let result = formula;
+  // Right to left so earlier positions stay valid
+  tokens.slice().reverse().forEach((token, idx, reversed) => {
+    const next = reversed[idx - 1];
+    const isCall = token.type === 'ident' && next?.type === 'paren' && next.value === '(';
+    if ((token.type === 'field' || (token.type === 'ident' && !isCall)) && token.value === oldName) {
+      result = result.slice(0, token.pos) + (bare ? newName : `[${newName}]`) + result.slice(token.end);
+    }
+  });
+  return result;
+};
+
+// A field is computed once its formula has content; an empty formula leaves it an ordinary column
+export const isComputedField = (field: FieldDefinition) => !!field.formula?.trim();
+
+const safeDependencies = (field: FieldDefinition, fields: FieldDefinition[]): string[] => {
+  try {
+    return getFormulaDependencies(field.formula || '', fields);
+  } catch {
+    return [];
+  }
+};
+
+// Labels along a chain of computed fields that leads back to `field`, or null when there is none
+const findCycle = (field: FieldDefinition, fields: FieldDefinition[]): string[] | null => {
+  const seen = new Set<string>();
+  const walk = (current: FieldDefinition, path: string[]): string[] | null => {
+    for (const key of safeDependencies(current, fields)) {
+      if (key === field.key) return [...path, field.label];
+      const dep = fields.find(f => f.key === key && isComputedField(f));
+      if (!dep || seen.has(dep.key)) continue;
+      seen.add(dep.key);
+      const found = walk(dep, [...path, dep.label]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return walk(field, [field.label]);
+};
+
+// Computed fields ordered so each one comes after the computed fields it reads; `computed` must be cycle-free
+const orderComputedFields = (computed: FieldDefinition[], fields: FieldDefinition[]): FieldDefinition[] => {
+  const ordered: FieldDefinition[] = [];
+  const visited = new Set<string>();
+  const visit = (field: FieldDefinition) => {
+    if (visited.has(field.key)) return;
+    visited.add(field.key);
+    safeDependencies(field, fields).forEach(key => {
+      const dep = computed.find(f => f.key === key);
+      if (dep) visit(dep);
+    });
+    ordered.push(field);
+  };
+  computed.forEach(visit);
+  return ordered;
+};
+
+// Returns an error message for the field's formula, or null when it is usable
+export const validateFormula = (field: FieldDefinition, fields: FieldDefinition[]): string | null => {
+  try {
+    const node = parseFormula(field.formula || '');
+    checkArity(node);
+    const names = new Set<string>();
+    collectFieldNames(node, names);
+    const unknown = Array.from(names).filter(name => !resolveField(name, fields));
+    if (unknown.length > 0) return `找不到欄位：${unknown.join('、')}`;
+    if (Array.from(names).some(name => resolveField(name, fields)!.key === field.key)) return '公式不能參照自己';
+    const cycle = findCycle(field, fields);
+    if (cycle) return `循環參照：${cycle.join(' → ')}`;
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+// Floating point noise such as 0.1 + 0.2 is rounded away before the value lands in a cell
+const normalizeResult = (value: FormulaValue): FormulaValue => {
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return FORMULA_ERROR_VALUE;
+    return Math.round(value * 1e10) / 1e10;
+  }
+  return value;
+};
+
+export interface ComputedFieldsResult {
+  rows: EmployeeRow[];
+  errors: string[]; // One message per computed field whose formula can't be used
+}
+
+// Fills every computed field of every row. Rows a formula fails on get FORMULA_ERROR_VALUE, and
+// so does the whole column of a formula that doesn't validate; those are listed in `errors`.
+export const applyComputedFields = (rows: EmployeeRow[], fields: FieldDefinition[]): ComputedFieldsResult => {
+  const computed = fields.filter(isComputedField);
+  if (computed.length === 0) return { rows, errors: [] };
+  const errors: string[] = [];
+  const invalid = new Set<string>();
+  computed.forEach(field => {
+    const error = validateFormula(field, fields);
+    if (!error) return;
+    invalid.add(field.key);
+    errors.push(`計算欄位「${field.label}」：${error}`);
+  });
+  const compiled = orderComputedFields(computed.filter(f => !invalid.has(f.key)), fields)
+    .map(field => ({ key: field.key, node: parseFormula(field.formula!) }));
+  const result = rows.map(row => {
+    const next = { ...row };
+    invalid.forEach(key => { next[key] = FORMULA_ERROR_VALUE; });
+    compiled.forEach(({ key, node }) => {
+      try {
+        next[key] = normalizeResult(evaluate(node, next, fields));
+      } catch {
+        next[key] = FORMULA_ERROR_VALUE;
+      }
+    });
+    return next;
+  });
+  return { rows: result, errors };
+};
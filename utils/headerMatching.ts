@@ -0,0 +1,157 @@
+import { HeaderMatchProposal, HeaderSynonymGroup, SheetData } from '../types';
+import { stringSimilarity } from './keyMatching';
+
+const STORAGE_KEY = 'universal-excel-splitter:header-synonyms';
+
+// Dictionary matches rank just below identical headers
+export const SYNONYM_CONFIDENCE = 0.95;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+
+const group = (id: string, canonical: string, synonyms: string[]): HeaderSynonymGroup => ({ id, canonical, synonyms });
+
+// Common HR payroll and roster headers in Traditional Chinese, Simplified Chinese and English
+export const DEFAULT_HEADER_SYNONYMS: HeaderSynonymGroup[] = [
+  group('emp-id', '員工編號', ['EmpID', 'Emp ID', 'Emp No', 'Employee ID', 'Employee No', 'Employee Number', 'Staff ID', 'Staff No', '工號', '員編', '員工代號', '员工编号', '工号']),
+  group('name', '姓名', ['Name', 'Full Name', 'Full_Name', 'Employee Name', 'Emp Name', '員工姓名', '员工姓名', '中文姓名']),
+  group('english-name', '英文姓名', ['English Name', 'Eng Name', '英文名']),
+  group('dept', '部門', ['Dept', 'Dept Name', 'Dept_Name', 'Department', 'Department Name', '部門名稱', '单位', '單位', '部门']),
+  group('title', '職稱', ['Title', 'Job Title', 'Position', '职称', '職位', '职位']),
+  group('level', '職等', ['Job Level', 'Job_Level', 'Grade', 'Level', '職級', '职等', '职级']),
+  group('base-salary', '本薪', ['Base Salary', 'Base_Salary', 'Basic Salary', 'Base Pay', '底薪', '基本薪資', '基本工资', '本俸']),
+  group('entity', '分公司', ['Entity', 'Branch', 'Company', 'Legal Entity', '公司別', '公司', '据点', '據點']),
+  group('hire-date', '到職日', ['Hire Date', 'Start Date', 'Onboard Date', 'Join Date', '到職日期', '入職日期', '入职日期']),
+  group('email', 'Email', ['E-mail', 'Mail', 'Email Address', '電子郵件', '电子邮件', '信箱', '邮箱']),
+  group('phone', '電話', ['Phone', 'Mobile', 'Tel', 'Phone Number', '手機', '手机', '聯絡電話', '联系电话']),
+  group('national-id', '身分證字號', ['National ID', 'ID Number', 'ID No', '身份證字號', '身分證號', '身份证号']),
+  group('bank-account', '銀行帳號', ['Bank Account', 'Account No', 'Account Number', '帳號', '银行账号']),
+  group('cost-center', '成本中心', ['Cost Center', 'Cost Centre', 'CC']),
+  group('manager', '主管', ['Manager', 'Supervisor', 'Reports To', '直屬主管', '直属主管']),
+];
+
+export const loadHeaderSynonyms = (): HeaderSynonymGroup[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_HEADER_SYNONYMS;
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : DEFAULT_HEADER_SYNONYMS;
+  } catch {
+    return DEFAULT_HEADER_SYNONYMS;
+  }
+};
+
+export const saveHeaderSynonyms = (groups: HeaderSynonymGroup[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(groups));
+};
+
+// "Employee_No", "employee no" and "ＥｍｐｌｏｙｅｅＮｏ" compare equal
+export const normalizeHeader = (header: string) => header
+  .replace(/[！-～]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xFEE0))
+  .toLowerCase()
+  .replace(/[\s_\-.:/\\()（）[\]【】#]+/g, '');
+
+export interface HeaderCluster {
+  label: string;
+  headerIds: string[];
+  proposals: HeaderMatchProposal[]; // Members that are synonyms or look-alikes rather than identical
+}
+
+interface ClusterDraft extends HeaderCluster {
+  groupId?: string;
+  names: string[];         // Normalized names that identify the cluster
+  sheetIds: Set<string>;   // Two columns of one sheet never share a field
+}
+
+// Groups the headers of all sheets into target fields, in sheet order. Identical headers always
+// share a field; dictionary synonyms and headers at least `threshold` similar are proposed.
+export const clusterHeaders = (
+  sheets: SheetData[],
+  dictionary: HeaderSynonymGroup[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): HeaderCluster[] => {
+  const headerIds = new Map<string, string[]>();
+  const headerSheets = new Map<string, Set<string>>();
+  sheets.forEach(sheet => {
+    const sheetId = `${sheet.fileName}::${sheet.sheetName}`;
+    sheet.headers.forEach(h => {
+      if (!headerIds.has(h)) {
+        headerIds.set(h, []);
+        headerSheets.set(h, new Set());
+      }
+      headerIds.get(h)!.push(`${sheetId}::${h}`);
+      headerSheets.get(h)!.add(sheetId);
+    });
+  });
+
+  const groupNames = dictionary.map(g => ({
+    group: g,
+    names: [g.canonical, ...g.synonyms].map(normalizeHeader).filter(Boolean),
+  }));
+  const clusters: ClusterDraft[] = [];
+  const overlaps = (cluster: ClusterDraft, sheetIds: Set<string>) => Array.from(sheetIds).some(id => cluster.sheetIds.has(id));
+
+  headerIds.forEach((ids, header) => {
+    const norm = normalizeHeader(header);
+    const sheetIds = headerSheets.get(header)!;
+    let target: ClusterDraft | undefined;
+    let confidence = 1;
+    let reason: HeaderMatchProposal['reason'] = 'synonym';
+
+    const synonymGroup = groupNames.find(g => g.names.includes(norm));
+    if (synonymGroup) {
+      target = clusters.find(c => c.groupId === synonymGroup.group.id && !overlaps(c, sheetIds));
+      if (!target && !clusters.some(c => c.groupId === synonymGroup.group.id)) {
+        target = { label: synonymGroup.group.canonical, groupId: synonymGroup.group.id, names: synonymGroup.names, headerIds: [], proposals: [], sheetIds: new Set() };
+        clusters.push(target);
+      }
+      if (normalizeHeader(synonymGroup.group.canonical) !== norm) confidence = SYNONYM_CONFIDENCE;
+    }
+
+    if (!target) {
+      // Closest existing field, or dictionary group not seen yet
+      let best = 0;
+      clusters.forEach(c => {
+        if (overlaps(c, sheetIds)) return;
+        const score = Math.max(...c.names.map(n => stringSimilarity(n, norm)));
+        if (score > best) { best = score; target = c; }
+      });
+      let bestGroup: typeof groupNames[number] | undefined;
+      groupNames.forEach(g => {
+        if (clusters.some(c => c.groupId === g.group.id)) return;
+        const score = Math.max(0, ...g.names.map(n => stringSimilarity(n, norm)));
+        if (score > best) { best = score; bestGroup = g; }
+      });
+      if (best >= threshold && norm.length >= 3) {
+        if (bestGroup) {
+          target = { label: bestGroup.group.canonical, groupId: bestGroup.group.id, names: bestGroup.names, headerIds: [], proposals: [], sheetIds: new Set() };
+          clusters.push(target);
+        }
+        confidence = best;
+        reason = 'similar';
+      } else {
+        target = undefined;
+      }
+    }
+
+    if (!target) {
+      target = { label: header, names: [norm], headerIds: [], proposals: [], sheetIds: new Set() };
+      clusters.push(target);
+    } else if (!target.names.includes(norm)) {
+      target.names.push(norm);
+    }
+    // The first header of a dictionary cluster stands for the field itself unless it is a synonym
+    if (confidence < 1) {
+      target.proposals.push({ header, headerIds: ids, fieldKey: target.label, confidence, reason });
+    }
+    target.headerIds.push(...ids);
+    sheetIds.forEach(id => target!.sheetIds.add(id));
+  });
+
+  // Field keys are labels, so they must be unique
+  const used = new Set<string>();
+  return clusters.filter(c => c.headerIds.length > 0).map(c => {
+    let label = c.label;
+    for (let n = 2; used.has(label); n++) label = `${c.label} (${n})`;
+    used.add(label);
+    return { label, headerIds: c.headerIds, proposals: c.proposals.map(p => ({ ...p, fieldKey: label })) };
+  });
+};
@@ -0,0 +1,49 @@
+import { KeyNormalization } from '../types';
+
+export const DEFAULT_KEY_NORMALIZATION: KeyNormalization = {
+  caseFold: false,
+  fullWidthToHalf: false,
+  stripLeadingZeros: false,
+  removePunctuation: false,
+  removeSpaces: false,
+};
+
+// Full-width ASCII block (！ to ～) and the ideographic space map onto their half-width forms
+const toHalfWidth = (str: string) => str
+  .replace(/[！-～]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xFEE0))
+  .replace(/　/g, ' ');
+
+export const normalizeKeyValue = (value: string, options: KeyNormalization): string => {
+  let str = value.trim();
+  if (options.fullWidthToHalf) str = toHalfWidth(str);
+  if (options.caseFold) str = str.toUpperCase();
+  if (options.removeSpaces) str = str.replace(/\s+/g, '');
+  if (options.removePunctuation) str = str.replace(/[\p{P}\p{S}]/gu, '');
+  if (options.stripLeadingZeros) str = str.replace(/^0+(?=\d)/, '');
+  return str;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// Edit-distance similarity in [0, 1], case-insensitive
+export const stringSimilarity = (a: string, b: string): number => {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  const maxLen = Math.max(x.length, y.length);
+  if (maxLen === 0) return 1;
+  return 1 - levenshtein(x, y) / maxLen;
+};
@@ -0,0 +1,87 @@
+import saveAs from 'file-saver';
+import { FieldDefinition, MappingTemplate, MergeConfig, SheetData } from '../types';
+
+const STORAGE_KEY = 'universal-excel-splitter:mapping-templates';
+const FILE_FORMAT = 'universal-excel-splitter/mapping-template';
+const FILE_VERSION = 1;
+
+// Header IDs are "fileName::sheetName::header"; the header itself may contain "::"
+const headerNameFromId = (id: string) => id.split('::').slice(2).join('::') || id;
+
+const isMappingTemplate = (val: any): val is MappingTemplate =>
+  !!val && typeof val.name === 'string' && Array.isArray(val.fields)
+  && !!val.sourceHeaders && typeof val.sourceHeaders === 'object' && !!val.mergeConfig;
+
+export const loadMappingTemplates = (): MappingTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isMappingTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveMappingTemplates = (templates: MappingTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const createMappingTemplate = (
+  name: string,
+  fields: FieldDefinition[],
+  mapping: Record<string, string[]>,
+  mergeConfig: MergeConfig
+): MappingTemplate => {
+  const sourceHeaders: Record<string, string[]> = {};
+  fields.forEach(f => {
+    sourceHeaders[f.key] = Array.from(new Set((mapping[f.key] || []).map(headerNameFromId)));
+  });
+  return {
+    id: Math.random().toString(36).slice(2, 11),
+    name,
+    savedAt: new Date().toISOString(),
+    fields,
+    sourceHeaders,
+    mergeConfig: { ...mergeConfig, requiredSheets: [], keyAliases: {}, sourceTransforms: {} },
+  };
+};
+
+// Maps every sheet header whose name the template lists for a field. A header claimed by
+// several fields goes to the first one, as a header tag can only sit under one field.
+export const applyMappingTemplate = (template: MappingTemplate, sheets: SheetData[]) => {
+  const mapping: Record<string, string[]> = {};
+  const claimed = new Set<string>();
+  template.fields.forEach(field => {
+    const names = template.sourceHeaders[field.key] || [];
+    mapping[field.key] = [];
+    sheets.forEach(sheet => {
+      sheet.headers.forEach(header => {
+        const id = `${sheet.fileName}::${sheet.sheetName}::${header}`;
+        if (names.includes(header) && !claimed.has(id)) {
+          mapping[field.key].push(id);
+          claimed.add(id);
+        }
+      });
+    });
+  });
+  const unmatchedFields = template.fields.filter(f => f.formula === undefined && mapping[f.key].length === 0).map(f => f.label);
+  return { fields: template.fields, mapping, mergeConfig: template.mergeConfig, unmatchedFields };
+};
+
+export const downloadMappingTemplate = (template: MappingTemplate) => {
+  const payload = { format: FILE_FORMAT, version: FILE_VERSION, template };
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+  saveAs(blob, `${template.name.replace(/[:\\/?*[\]"<>|]/g, '_') || 'mapping'}.mapping.json`);
+};
+
+export const parseMappingTemplateFile = (text: string): MappingTemplate => {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error('範本檔不是有效的 JSON');
+  }
+  const template = payload?.format === FILE_FORMAT ? payload.template : payload;
+  if (!isMappingTemplate(template)) throw new Error('檔案不是欄位對應範本');
+  // Imported copies get a fresh id so they never overwrite a stored template
+  return { ...template, id: Math.random().toString(36).slice(2, 11) };
+};
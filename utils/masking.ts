@@ -0,0 +1,109 @@
+import { EmployeeRow, MaskingOperation, MaskingRule } from '../types';
+
+export const MASKING_OPTIONS: { value: MaskingOperation; label: string }[] = [
+  { value: 'keepLast4', label: '只保留末 4 碼 (******1234)' },
+  { value: 'hash', label: '加鹽雜湊 (Salted Hash)' },
+  { value: 'bucket', label: '轉為級距 (40k–50k)' },
+  { value: 'drop', label: '移除整欄 (Drop)' },
+];
+
+export const DEFAULT_BUCKET_SIZE = 10000;
+
+export const createMaskingRule = (field = '', operation: MaskingOperation = 'keepLast4'): MaskingRule => ({
+  id: Math.random().toString(36).slice(2, 11),
+  field,
+  operation,
+  salt: '',
+  bucketSize: DEFAULT_BUCKET_SIZE,
+});
+
+// --- SHA-256 ---
+// Synchronous so it can run inside the cell transforms; crypto.subtle only offers a Promise API
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+export const sha256Hex = (text: string): string => {
+  const data = new TextEncoder().encode(text);
+  const blocks = Math.ceil((data.length + 9) / 64);
+  const bytes = new Uint8Array(blocks * 64);
+  bytes.set(data);
+  bytes[data.length] = 0x80;
+  const view = new DataView(bytes.buffer);
+  view.setUint32(bytes.length - 4, data.length * 8, false);
+  view.setUint32(bytes.length - 8, Math.floor(data.length / 0x20000000), false);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let block = 0; block < blocks; block++) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(block * 64 + i * 4, false);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+  return Array.from(h, n => n.toString(16).padStart(8, '0')).join('');
+};
+
+// --- Value masks ---
+const isBlank = (val: any) => val === undefined || val === null || String(val).trim() === '';
+
+export const keepLastFour = (val: any) => {
+  if (isBlank(val)) return val;
+  const chars = Array.from(String(val).trim());
+  return chars.map((ch, i) => i < chars.length - 4 ? '*' : ch).join('');
+};
+
+// 16 hex characters (64 bits) keep the same person on the same token across files without being unwieldy
+export const saltedHash = (val: any, salt = '') => isBlank(val) ? val : sha256Hex(`${salt}${String(val).trim()}`).slice(0, 16);
+
+const formatBucketBound = (n: number) => n !== 0 && n % 1000 === 0 ? `${n / 1000}k` : String(n);
+
+export const toBucket = (val: any, size = DEFAULT_BUCKET_SIZE) => {
+  if (isBlank(val) || !(size > 0)) return val;
+  const num = typeof val === 'number' ? val : parseFloat(String(val).replace(/,/g, ''));
+  if (isNaN(num)) return val;
+  const low = Math.floor(num / size) * size;
+  return `${formatBucketBound(low)}–${formatBucketBound(low + size)}`;
+};
+
+// Value-level mask for one rule; 'drop' is structural and handled by the caller
+export const maskValue = (val: any, rule: MaskingRule) => {
+  switch (rule.operation) {
+    case 'keepLast4': return keepLastFour(val);
+    case 'hash': return saltedHash(val, rule.salt);
+    case 'bucket': return toBucket(val, rule.bucketSize);
+    default: return val;
+  }
+};
+
+export const getDroppedFields = (rules: MaskingRule[] = []) =>
+  new Set(rules.filter(r => r.operation === 'drop').map(r => r.field));
+
+export const applyMaskingRules = (rows: EmployeeRow[], rules: MaskingRule[] = []): EmployeeRow[] => {
+  const valueRules = rules.filter(r => r.field && r.operation !== 'drop');
+  if (valueRules.length === 0) return rows;
+  return rows.map(row => {
+    const masked = { ...row };
+    valueRules.forEach(rule => { masked[rule.field] = maskValue(masked[rule.field], rule); });
+    return masked;
+  });
+};
@@ -0,0 +1,85 @@
+import * as XLSX from 'xlsx';
+import { ExportFormat, OutputProtection } from '../types';
+import { ExportProtection } from './excelUtils';
+import { isDelimitedFile, detectEncoding, decodeText, detectDelimiter, parseDelimitedText } from './delimitedText';
+
+export const DEFAULT_OUTPUT_PROTECTION: OutputProtection = {
+  mode: 'none',
+  passwordSource: 'template',
+  template: '{random:10}',
+  passwordMap: {},
+};
+
+// No 0/O or 1/l/I, so passwords survive being read out over the phone
+const PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+
+const randomString = (length: number) =>
+  Array.from(crypto.getRandomValues(new Uint32Array(length)), n => PASSWORD_ALPHABET[n % PASSWORD_ALPHABET.length]).join('');
+
+const today = () => {
+  const d = new Date();
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Tokens: {name} output name, {date} yyyymmdd, {random} / {random:N} random characters (8 by default)
+export const expandPasswordTemplate = (template: string, outputName: string) => template
+  .replace(/\{name\}/g, outputName)
+  .replace(/\{date\}/g, today())
+  .replace(/\{random(?::(\d+))?\}/g, (_, length) => randomString(Math.min(64, Math.max(1, Number(length) || 8))));
+
+// One password per output name; outputs the mapping file doesn't cover are reported as missing
+export const resolveOutputPasswords = (outputNames: string[], protection: OutputProtection) => {
+  const passwords: Record<string, string> = {};
+  const missing: string[] = [];
+  outputNames.forEach(name => {
+    const password = protection.passwordSource === 'mapping'
+      ? protection.passwordMap[name.trim()]
+      : expandPasswordTemplate(protection.template, name);
+    if (password) passwords[name] = password;
+    else missing.push(name);
+  });
+  return { passwords, missing };
+};
+
+// Protection for exportMultipleFilesAsZip ('files') or exportWorkbook ('workbook'), or the reason
+// the export can't go ahead. A single workbook can't be split into per-output ZIPs.
+export const prepareExportProtection = (
+  outputNames: string[],
+  protection: OutputProtection,
+  format: ExportFormat,
+  target: 'files' | 'workbook'
+): { exportProtection?: ExportProtection; error?: string } => {
+  if (protection.mode === 'none') return {};
+  if (protection.mode === 'zip' && target === 'workbook') return { error: '加密 ZIP 只能用於每份一個檔案的輸出，工作表輸出請改用唯讀保護' };
+  if (protection.mode === 'sheet' && format !== 'xlsx') return { error: '唯讀保護只支援 xlsx 格式' };
+  const { passwords, missing } = resolveOutputPasswords(outputNames, protection);
+  if (missing.length > 0) {
+    return { error: `以下輸出沒有對應密碼：${missing.slice(0, 5).join('、')}${missing.length > 5 ? ` 等 ${missing.length} 個` : ''}` };
+  }
+  return { exportProtection: { mode: protection.mode, passwords } };
+};
+
+// First sheet of the file: first column is the output name, second the password. Read as a raw
+// grid, since header detection would swallow the first row of a file without headers; a header
+// row, if present, only adds an entry no output is named after. Spreadsheet cells are taken as
+// displayed, so a password such as 0123 keeps its leading zero.
+export const readPasswordMap = async (file: File): Promise<Record<string, string>> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let grid: any[][];
+  if (isDelimitedFile(file.name)) {
+    const text = decodeText(bytes, detectEncoding(bytes).encoding);
+    grid = parseDelimitedText(text, detectDelimiter(text));
+  } else {
+    const workbook = XLSX.read(bytes, { type: 'array' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    grid = worksheet ? XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, raw: false, defval: '' }) : [];
+  }
+  if (!grid.some(row => row.length >= 2)) throw new Error('對照檔至少需要兩欄：輸出名稱、密碼');
+  const map: Record<string, string> = {};
+  grid.forEach(row => {
+    const name = String(row[0] ?? '').trim();
+    const password = String(row[1] ?? '').trim();
+    if (name && password) map[name] = password;
+  });
+  return map;
+};
@@ -0,0 +1,140 @@
+import { SourceTransform, SourceTransformType } from '../types';
+
+export const SOURCE_TRANSFORM_OPTIONS: { value: SourceTransformType; label: string; hint: string }[] = [
+  { value: 'lookup', label: '對照表', hint: '例如 M → 男、F → 女' },
+  { value: 'multiply', label: '乘以倍數', hint: '例如以千元為單位的薪資 × 1000' },
+  { value: 'regex', label: '正規表示式擷取', hint: '保留第一個括號群組，沒有群組時保留整段符合的文字' },
+  { value: 'dateParse', label: '日期格式解析', hint: '依格式讀取日期，輸出 YYYY-MM-DD' },
+];
+
+export const createSourceTransform = (type: SourceTransformType): SourceTransform => {
+  switch (type) {
+    case 'lookup': return { type, lookup: {}, keepUnmatched: true };
+    case 'multiply': return { type, factor: 1000 };
+    case 'regex': return { type, pattern: '' };
+    case 'dateParse': return { type, dateFormat: 'DD/MM/YYYY' };
+  }
+};
+
+// Lookup tables are edited as one "from = to" pair per line
+export const formatLookupText = (lookup: Record<string, string> = {}) =>
+  Object.entries(lookup).map(([from, to]) => `${from} = ${to}`).join('\n');
+
+export const parseLookupText = (text: string): Record<string, string> => {
+  const lookup: Record<string, string> = {};
+  text.split(/\r?\n/).forEach(line => {
+    const idx = line.indexOf('=');
+    if (idx < 0) return;
+    const from = line.slice(0, idx).trim();
+    if (from) lookup[from] = line.slice(idx + 1).trim();
+  });
+  return lookup;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Reads a date by a pattern of YYYY / YYY (ROC year) / YY / MM / M / DD / D; other characters
+// in the pattern match any single non-digit separator
+const parseDateByFormat = (text: string, format: string): string | null => {
+  const tokens = format.match(/YYYY|YYY|YY|MM|M|DD|D|./g) || [];
+  let pos = 0;
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+  for (const token of tokens) {
+    if (/^[YMD]+$/.test(token)) {
+      // Fixed width for doubled tokens; M and D take one or two digits
+      const width = token === 'M' || token === 'D' ? (/^\d\d/.test(text.slice(pos)) ? 2 : 1) : token.length;
+      const digits = text.slice(pos, pos + width);
+      if (!/^\d+$/.test(digits) || digits.length !== width) {
+        // ROC years before 100 are written with two digits
+        if (token === 'YYY' && /^\d\d(\D|$)/.test(text.slice(pos))) {
+          year = Number(text.slice(pos, pos + 2)) + 1911;
+          pos += 2;
+          continue;
+        }
+        return null;
+      }
+      pos += width;
+      const value = Number(digits);
+      if (token === 'YYYY') year = value;
+      else if (token === 'YYY') year = value + 1911;
+      else if (token === 'YY') year = value + (value < 50 ? 2000 : 1900);
+      else if (token[0] === 'M') month = value;
+      else day = value;
+    } else {
+      if (pos >= text.length || /\d/.test(text[pos])) return null;
+      pos++;
+    }
+  }
+  if (pos !== text.length || isNaN(year) || isNaN(month) || isNaN(day)) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Values a transform can't handle (no regex match, unparseable date, non-number) are passed
+// through unchanged so nothing is silently lost
+export const applySourceTransform = (value: any, transform?: SourceTransform): any => {
+  if (!transform || value === undefined || value === null || value === '') return value;
+  const text = String(value).trim();
+  switch (transform.type) {
+    case 'lookup': {
+      const lookup = transform.lookup || {};
+      const match = Object.keys(lookup).find(from => from.toLowerCase() === text.toLowerCase());
+      if (match !== undefined) return lookup[match];
+      return transform.keepUnmatched === false ? '' : value;
+    }
+    case 'multiply': {
+      const num = typeof value === 'number' ? value : parseFloat(text.replace(/[$€£¥,\s]/g, ''));
+      if (isNaN(num) || transform.factor === undefined) return value;
+      // Returned as text: the merge cleanup reads it back as a number, whereas a raw number
+      // between 20000 and 60000 would be taken for an Excel date serial
+      return String(Math.round(num * transform.factor * 1e10) / 1e10);
+    }
+    case 'regex': {
+      if (!transform.pattern) return value;
+      let regex: RegExp;
+      try {
+        regex = new RegExp(transform.pattern);
+      } catch {
+        return value;
+      }
+      const match = text.match(regex);
+      if (!match) return value;
+      return match[1] ?? match[0];
+    }
+    case 'dateParse':
+      return (transform.dateFormat && parseDateByFormat(text, transform.dateFormat)) || value;
+  }
+};
+
+export const describeSourceTransform = (transform: SourceTransform): string => {
+  switch (transform.type) {
+    case 'lookup': return `對照表 (${Object.keys(transform.lookup || {}).length} 組)`;
+    case 'multiply': return `× ${transform.factor ?? 1}`;
+    case 'regex': return `擷取 /${transform.pattern || ''}/`;
+    case 'dateParse': return `日期 ${transform.dateFormat || ''}`;
+  }
+};
+
+// Checks settings that would make the transform do nothing; returns an error message or null
+export const validateSourceTransform = (transform: SourceTransform): string | null => {
+  switch (transform.type) {
+    case 'lookup':
+      return Object.keys(transform.lookup || {}).length === 0 ? '對照表至少需要一組「原值 = 新值」' : null;
+    case 'multiply':
+      return transform.factor === undefined || isNaN(transform.factor) ? '請輸入倍數' : null;
+    case 'regex':
+      if (!transform.pattern) return '請輸入正規表示式';
+      try {
+        new RegExp(transform.pattern);
+        return null;
+      } catch {
+        return '正規表示式格式錯誤';
+      }
+    case 'dateParse':
+      return /Y/.test(transform.dateFormat || '') && /M/.test(transform.dateFormat || '') && /D/.test(transform.dateFormat || '')
+        ? null : '日期格式需包含年 (YYYY/YYY/YY)、月 (MM/M)、日 (DD/D)';
+  }
+};
@@ -0,0 +1,73 @@
+import JSZip from 'jszip';
+
+// Styling the community build of xlsx cannot write (bold fonts, frozen panes), applied to the generated package
+export interface SheetStyling {
+  freezeHeader: boolean;
+  boldRows: number[]; // 1-based row numbers
+}
+
+const countOf = (xml: string, tag: string) => {
+  const match = xml.match(new RegExp(`<${tag} count="(\\d+)"`));
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+// Adds a bold copy of the default font and a bold twin of every cell format.
+// Returns the offset that turns a cell's style index into its bold twin.
+const addBoldStyles = (stylesXml: string): { xml: string; boldOffset: number } => {
+  const fontCount = countOf(stylesXml, 'fonts');
+  const baseFont = stylesXml.match(/<fonts[^>]*>\s*<font>([\s\S]*?)<\/font>/)?.[1] ?? '';
+  let xml = stylesXml
+    .replace(/<fonts count="\d+"/, `<fonts count="${fontCount + 1}"`)
+    .replace('</fonts>', `<font><b/>${baseFont}</font></fonts>`);
+
+  const cellXfs = xml.match(/<cellXfs count="(\d+)"[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) return { xml, boldOffset: 0 };
+  const xfCount = parseInt(cellXfs[1], 10);
+  const boldXfs = (cellXfs[2].match(/<xf\b[^>]*?(\/>|>[\s\S]*?<\/xf>)/g) || [])
+    .map(xf => xf.replace(/fontId="\d+"/, `fontId="${fontCount}"`).replace(/<xf\b(?![^>]*applyFont)/, '<xf applyFont="1"'));
+  xml = xml
+    .replace(/<cellXfs count="\d+"/, `<cellXfs count="${xfCount + boldXfs.length}"`)
+    .replace('</cellXfs>', `${boldXfs.join('')}</cellXfs>`);
+  return { xml, boldOffset: xfCount };
+};
+
+const boldenRow = (sheetXml: string, rowNumber: number, boldOffset: number) =>
+  sheetXml.replace(new RegExp(`<row r="${rowNumber}"[^>]*>[\\s\\S]*?</row>`), row =>
+    row.replace(/<c r="([A-Z]+\d+)"([^>]*?)(\/?)>/g, (_, ref, attrs, selfClosing) => {
+      const style = attrs.match(/ s="(\d+)"/);
+      const index = (style ? parseInt(style[1], 10) : 0) + boldOffset;
+      return `<c r="${ref}"${attrs.replace(/ s="\d+"/, '')} s="${index}"${selfClosing}>`;
+    })
+  );
+
+const FROZEN_PANE = '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>';
+
+export const applyXlsxStyling = async (buffer: ArrayBuffer, sheets: SheetStyling[]): Promise<ArrayBuffer> => {
+  if (!sheets.some(s => s.freezeHeader || s.boldRows.length > 0)) return buffer;
+  const zip = await JSZip.loadAsync(buffer);
+
+  let boldOffset = 0;
+  if (sheets.some(s => s.boldRows.length > 0)) {
+    const stylesFile = zip.file('xl/styles.xml');
+    if (stylesFile) {
+      const result = addBoldStyles(await stylesFile.async('string'));
+      zip.file('xl/styles.xml', result.xml);
+      boldOffset = result.boldOffset;
+    }
+  }
+
+  for (let i = 0; i < sheets.length; i++) {
+    const path = `xl/worksheets/sheet${i + 1}.xml`;
+    const file = zip.file(path);
+    if (!file) continue;
+    let xml = await file.async('string');
+    if (sheets[i].freezeHeader) {
+      xml = xml.replace(/<sheetView([^>]*?)\/>/, `<sheetView$1>${FROZEN_PANE}</sheetView>`);
+    }
+    if (boldOffset > 0) {
+      sheets[i].boldRows.forEach(row => { xml = boldenRow(xml, row, boldOffset); });
+    }
+    zip.file(path, xml);
+  }
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
@@ -0,0 +1,116 @@
+// Minimal ZIP writer with traditional PKWARE (ZipCrypto) encryption, which JSZip cannot produce.
+// It is the scheme Windows Explorer and macOS Archive Utility open without extra tools.
+// Entries are stored uncompressed; the xlsx/ods payloads are already deflated.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32Byte = (crc: number, byte: number) => (CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8)) >>> 0;
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = crc32Byte(crc, data[i]);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const createCipher = (password: string) => {
+  const keys = [0x12345678, 0x23456789, 0x34567890];
+  const update = (byte: number) => {
+    keys[0] = crc32Byte(keys[0], byte);
+    keys[1] = (Math.imul((keys[1] + (keys[0] & 0xFF)) >>> 0, 134775813) + 1) >>> 0;
+    keys[2] = crc32Byte(keys[2], keys[1] >>> 24);
+  };
+  new TextEncoder().encode(password).forEach(update);
+  return (plain: Uint8Array) => {
+    const out = new Uint8Array(plain.length);
+    for (let i = 0; i < plain.length; i++) {
+      const temp = (keys[2] | 2) & 0xFFFF;
+      out[i] = plain[i] ^ ((Math.imul(temp, temp ^ 1) >>> 8) & 0xFF);
+      update(plain[i]);
+    }
+    return out;
+  };
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8_NAME = 0x0800;
+
+export const createEncryptedZip = (files: { name: string; data: Uint8Array }[], password: string): Uint8Array => {
+  const { time, date } = toDosDateTime(new Date());
+  const flags = FLAG_ENCRYPTED | FLAG_UTF8_NAME;
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = new TextEncoder().encode(file.name);
+    const crc = crc32(file.data);
+    // 12-byte encryption header; its last byte lets readers check the password
+    const header = crypto.getRandomValues(new Uint8Array(12));
+    header[11] = crc >>> 24;
+    const encrypt = createCipher(password);
+    const payload = new Uint8Array(12 + file.data.length);
+    payload.set(encrypt(header));
+    payload.set(encrypt(file.data), 12);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, flags, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, payload.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localParts.push(new Uint8Array(local.buffer), name, payload);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014B50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, flags, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, payload.length, true);
+    central.setUint32(24, file.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + payload.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(offset + centralSize + 22);
+  let pos = 0;
+  parts.forEach(part => {
+    zip.set(part, pos);
+    pos += part.length;
+  });
+  return zip;
+};